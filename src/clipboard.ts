@@ -2,28 +2,151 @@
  * クリップボード操作
  */
 
+/** クリップボードに書き込む形式 */
+export type ClipboardFlavor = 'html' | 'text' | 'rtf' | 'image';
+
+/** 形式ごとのMIMEタイプ */
+const FLAVOR_TYPES: Record<ClipboardFlavor, string> = {
+  html: 'text/html',
+  text: 'text/plain',
+  rtf: 'text/rtf',
+  image: 'image/png',
+};
+
+/** コピーする内容 */
+export interface ClipboardContent {
+  html: string;
+  plainText: string;
+  /** RTF（Keynote・Wordなど向け） */
+  rtf?: string;
+  /** PNG画像を生成する関数（画像を含めて書き込むときだけ呼ぶ） */
+  image?: () => Promise<Blob>;
+}
+
 /**
- * HTMLとプレーンテキストをクリップボードにコピー
+ * HTMLとプレーンテキスト（任意でRTF・PNG画像）をクリップボードにコピーし、書き込めた形式を返す
+ * 書き込みに失敗した場合は RTF・画像を外して再試行し、Clipboard API を使えなければ選択範囲のコピーで書き込む
  */
-export async function copyToClipboard(html: string, plainText: string): Promise<void> {
-  try {
-    // Clipboard API を使用（HTML + テキスト同時）
-    const htmlBlob = new Blob([html], { type: 'text/html' });
-    const textBlob = new Blob([plainText], { type: 'text/plain' });
+export async function copyToClipboard(content: ClipboardContent): Promise<ClipboardFlavor[]> {
+  if (typeof ClipboardItem !== 'undefined' && typeof navigator.clipboard?.write === 'function') {
+    // RTF は対応していないブラウザが多いため、画像より先に外す
+    const optionalSets: ClipboardFlavor[][] = [['rtf', 'image'], ['image'], ['rtf'], []];
+    const isAvailable = (flavor: ClipboardFlavor) => flavor === 'rtf' ? !!content.rtf : !!content.image;
+    const attempts = optionalSets.filter(optional => optional.every(isAvailable));
+    // 画像は最初に必要になったときに一度だけ生成し、再試行では使い回す
+    let image: Promise<Blob> | undefined;
+    const getImage = () => image ??= content.image!();
+
+    for (const optional of attempts) {
+      const flavors: ClipboardFlavor[] = ['html', 'text', ...optional];
+      try {
+        await writeClipboardItem(buildClipboardItems(content, flavors, getImage));
+        return flavors;
+      } catch (error) {
+        console.warn(`Clipboard API failed with ${flavors.join(', ')}, retrying:`, error);
+      }
+    }
+  }
 
-    const clipboardItem = new ClipboardItem({
-      'text/html': htmlBlob,
-      'text/plain': textBlob,
-    });
+  // フォールバック: 選択範囲のコピー（書式を保つ）
+  const flavors = copyWithSelection(content);
+  if (flavors) {
+    return flavors;
+  }
+
+  // フォールバック: テキストのみ
+  console.warn('Selection copy failed, falling back to text-only');
+  await navigator.clipboard.writeText(content.plainText);
+  return ['text'];
+}
+
+/**
+ * 形式ごとの ClipboardItem の内容を組み立て
+ */
+function buildClipboardItems(
+  content: ClipboardContent,
+  flavors: ClipboardFlavor[],
+  getImage: () => Promise<Blob>
+): Record<string, Blob | Promise<Blob>> {
+  const items: Record<string, Blob | Promise<Blob>> = {};
+  for (const flavor of flavors) {
+    const type = FLAVOR_TYPES[flavor];
+    if (flavor === 'image') {
+      items[type] = getImage();
+    } else {
+      const text = flavor === 'html' ? content.html : flavor === 'rtf' ? content.rtf! : content.plainText;
+      items[type] = new Blob([text], { type });
+    }
+  }
+  return items;
+}
 
-    await navigator.clipboard.write([clipboardItem]);
+/**
+ * ClipboardItem を1件書き込み
+ */
+async function writeClipboardItem(items: Record<string, Blob | Promise<Blob>>): Promise<void> {
+  const clipboardItem = new ClipboardItem(items);
+  await navigator.clipboard.write([clipboardItem]);
+}
+
+/**
+ * 非表示の編集可能領域に表を描画し、選択してコピー（Clipboard API を使えない環境向け）
+ * copy イベントで各形式を直接書き込み、書き込めなければブラウザが選択範囲をHTMLとテキストとしてコピーする
+ * 書き込めた形式を返す（コピーできなければ null）
+ */
+function copyWithSelection(content: ClipboardContent): ClipboardFlavor[] | null {
+  const selection = window.getSelection();
+  if (!selection || typeof document.execCommand !== 'function') return null;
+
+  const container = document.createElement('div');
+  container.contentEditable = 'true';
+  container.style.position = 'fixed';
+  container.style.left = '-10000px';
+  container.style.top = '0';
+  container.style.opacity = '0';
+  container.innerHTML = content.html;
+  document.body.appendChild(container);
+
+  let flavors: ClipboardFlavor[] = ['html', 'text'];
+  const handleCopy = (e: ClipboardEvent) => {
+    if (!e.clipboardData) return;
+    e.preventDefault();
+    e.clipboardData.setData('text/html', content.html);
+    e.clipboardData.setData('text/plain', content.plainText);
+    if (content.rtf) {
+      e.clipboardData.setData('text/rtf', content.rtf);
+    }
+    // 書き込みを拒否された形式は含めない
+    flavors = (['html', 'text', 'rtf'] as ClipboardFlavor[])
+      .filter(flavor => e.clipboardData!.types.includes(FLAVOR_TYPES[flavor]));
+  };
+
+  const previousRanges = Array.from({ length: selection.rangeCount }, (_, index) => selection.getRangeAt(index));
+  try {
+    const range = document.createRange();
+    range.selectNodeContents(container);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    document.addEventListener('copy', handleCopy);
+    return document.execCommand('copy') ? flavors : null;
   } catch (error) {
-    // フォールバック: テキストのみ
-    console.warn('Clipboard API failed, falling back to text-only:', error);
-    await navigator.clipboard.writeText(plainText);
+    console.warn('Selection copy failed:', error);
+    return null;
+  } finally {
+    document.removeEventListener('copy', handleCopy);
+    selection.removeAllRanges();
+    previousRanges.forEach(range => selection.addRange(range));
+    container.remove();
   }
 }
 
+/**
+ * プレーンテキストのみをクリップボードにコピー（Markdownなど）
+ */
+export async function copyTextToClipboard(text: string): Promise<void> {
+  await navigator.clipboard.writeText(text);
+}
+
 /**
  * トースト通知を表示
  */
@@ -0,0 +1,62 @@
+/**
+ * 列の設定 - 列の非表示・並べ替え・表示名の変更
+ */
+
+import type { TableData, ColumnSetting } from './types';
+import { selectColumns } from './table';
+
+/**
+ * 保存済みの列設定を現在の見出しに対応付ける
+ * 見出しが同じ列を優先し、見つからない列は列位置で対応付ける（見出しの編集中も設定を保つため）
+ * 設定済みの列は既存の並び順を保ち、新しい列は末尾に表示状態で追加する
+ */
+export function reconcileColumnSettings(settings: ColumnSetting[], headers: string[]): ColumnSetting[] {
+  const used = new Set<ColumnSetting>();
+  const matched: (ColumnSetting | undefined)[] = headers.map(header => {
+    if (header === '') return undefined;
+    const setting = settings.find(candidate => !used.has(candidate) && candidate.header === header);
+    if (setting) used.add(setting);
+    return setting;
+  });
+
+  headers.forEach((_, index) => {
+    if (matched[index]) return;
+    const setting = settings.find(candidate => !used.has(candidate) && candidate.index === index);
+    if (setting) {
+      used.add(setting);
+      matched[index] = setting;
+    }
+  });
+
+  const result = settings
+    .filter(setting => used.has(setting))
+    .map(setting => {
+      const index = matched.indexOf(setting);
+      return { ...setting, index, header: headers[index] };
+    });
+
+  headers.forEach((header, index) => {
+    if (!matched[index]) {
+      result.push({ index, header, label: '', visible: true });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 列設定を適用（非表示の列を除き、表示順に並べ替えて表示名を反映）
+ * 列由来は元データの列インデックスのまま保つため、配置などの列ごとの設定は並べ替え後も同じ列に効く
+ */
+export function applyColumnSettings(data: TableData, settings: ColumnSetting[]): TableData {
+  const visible = settings.filter(setting => setting.visible && setting.index < data.headers.length);
+  if (visible.length === 0) {
+    return { ...data, headers: [], rows: [], headerMeta: undefined, cellMeta: undefined };
+  }
+
+  const selected = selectColumns(data, visible.map(setting => setting.index));
+  return {
+    ...selected,
+    headers: selected.headers.map((header, col) => visible[col].label.trim() || header),
+  };
+}
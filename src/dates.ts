@@ -0,0 +1,227 @@
+/**
+ * 日付の認識と書式 - 西暦・和暦・Excelのシリアル値を認識し、指定の書式に揃える
+ */
+
+import type { DateFormat } from './types';
+
+/** 解析済みの日付 */
+export interface ParsedDate {
+  year: number;
+  month: number;
+  day: number;
+  /** 時刻（入力に時刻がない場合は null） */
+  time: { hours: number; minutes: number; seconds: number } | null;
+}
+
+/** 元号（開始日の新しい順） */
+const ERAS = [
+  { name: '令和', letter: 'R', start: [2019, 5, 1] },
+  { name: '平成', letter: 'H', start: [1989, 1, 8] },
+  { name: '昭和', letter: 'S', start: [1926, 12, 25] },
+  { name: '大正', letter: 'T', start: [1912, 7, 30] },
+  { name: '明治', letter: 'M', start: [1868, 1, 25] },
+] as const;
+
+/** 曜日の表記 */
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+/** Excelのシリアル値の起点（1900年のうるう年の誤りを含めて 1899-12-30） */
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+/** Excelのシリアル値の上限（9999-12-31） */
+const MAX_EXCEL_SERIAL = 2958465;
+
+/** 1日のミリ秒 */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 時刻（9:30 / 09:30:15） */
+const TIME_PATTERN = /(?:\s+|T)(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+
+/** 末尾の曜日（(月) / (月曜日) / 月曜日） */
+const WEEKDAY_PATTERN = /\s*(?:\([日月火水木金土](?:曜日?)?\)|[日月火水木金土]曜日?)$/;
+
+/** 西暦（2024/4/1, 2024-04-01, 2024.4.1, 2024年4月1日） */
+const WESTERN_PATTERN = /^(\d{4})(?:[/\-.](\d{1,2})[/\-.](\d{1,2})|年(\d{1,2})月(\d{1,2})日)$/;
+
+/** 年なし（4/1, 4月1日） */
+const MONTH_DAY_PATTERN = /^(?:(\d{1,2})\/(\d{1,2})|(\d{1,2})月(\d{1,2})日)$/;
+
+/** 和暦（R6.4.1, R06/04/01, 令和6年4月1日, 令和元年5月1日） */
+const ERA_PATTERN = /^(?:([RHSTM])(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{1,2})|(令和|平成|昭和|大正|明治)(\d{1,2}|元)年(\d{1,2})月(\d{1,2})日)$/i;
+
+/**
+ * 全角の数字・記号を半角に正規化
+ */
+function normalizeWidth(text: string): string {
+  return text
+    .replace(/[０-９／－．：（）]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0))
+    .replace(/[Ａ-Ｚａ-ｚ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0))
+    .replace(/　/g, ' ');
+}
+
+/**
+ * 年月日として正しいか（2月30日などを除く）
+ */
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * 日付部分を解析（年のない日付は今年とみなす）
+ */
+function parseDatePart(text: string): Omit<ParsedDate, 'time'> | null {
+  const western = WESTERN_PATTERN.exec(text);
+  if (western) {
+    return {
+      year: Number(western[1]),
+      month: Number(western[2] ?? western[4]),
+      day: Number(western[3] ?? western[5]),
+    };
+  }
+
+  const era = ERA_PATTERN.exec(text);
+  if (era) {
+    const definition = era[1]
+      ? ERAS.find(item => item.letter === era[1].toUpperCase())
+      : ERAS.find(item => item.name === era[5]);
+    if (!definition) return null;
+    const eraYear = era[1] ? Number(era[2]) : era[6] === '元' ? 1 : Number(era[6]);
+    return {
+      year: definition.start[0] + eraYear - 1,
+      month: Number(era[3] ?? era[7]),
+      day: Number(era[4] ?? era[8]),
+    };
+  }
+
+  const monthDay = MONTH_DAY_PATTERN.exec(text);
+  if (monthDay) {
+    return {
+      year: new Date().getFullYear(),
+      month: Number(monthDay[1] ?? monthDay[3]),
+      day: Number(monthDay[2] ?? monthDay[4]),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * セルの値を日付として解析（日付でなければ null）
+ * allowSerial が true ならExcelのシリアル値（45383 など）も日付とみなす
+ */
+export function parseDateValue(text: string, allowSerial = false): ParsedDate | null {
+  let normalized = normalizeWidth(text.trim());
+  if (!normalized) return null;
+
+  if (allowSerial && /^\d+(\.\d+)?$/.test(normalized)) {
+    return parseExcelSerial(Number(normalized));
+  }
+
+  // 時刻と曜日を切り離してから日付部分を解析
+  let time: ParsedDate['time'] = null;
+  const timeMatch = TIME_PATTERN.exec(normalized);
+  if (timeMatch) {
+    const [hours, minutes, seconds] = [timeMatch[1], timeMatch[2], timeMatch[3] ?? '0'].map(Number);
+    if (hours > 23 || minutes > 59 || seconds > 59) return null;
+    time = { hours, minutes, seconds };
+    normalized = normalized.slice(0, timeMatch.index);
+  }
+  normalized = normalized.replace(WEEKDAY_PATTERN, '');
+
+  const date = parseDatePart(normalized);
+  if (!date || !isValidDate(date.year, date.month, date.day)) return null;
+  return { ...date, time };
+}
+
+/**
+ * Excelのシリアル値を日付に変換（小数部は時刻）
+ */
+function parseExcelSerial(serial: number): ParsedDate | null {
+  if (serial < 1 || serial > MAX_EXCEL_SERIAL) return null;
+
+  const date = new Date(EXCEL_EPOCH + Math.round(serial * DAY_MS / 1000) * 1000);
+  const hasTime = !Number.isInteger(serial);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    time: hasTime
+      ? { hours: date.getUTCHours(), minutes: date.getUTCMinutes(), seconds: date.getUTCSeconds() }
+      : null,
+  };
+}
+
+/**
+ * 日付を比較用の数値に変換
+ */
+export function getDateTime(date: ParsedDate): number {
+  const time = date.time ?? { hours: 0, minutes: 0, seconds: 0 };
+  return Date.UTC(date.year, date.month - 1, date.day, time.hours, time.minutes, time.seconds);
+}
+
+/**
+ * 日付を書式に従って整形（keep は元の表記のまま、曜日のみ付ける。シリアル値は YYYY/M/D で表記）
+ * 入力に時刻があれば末尾に時:分（秒があれば秒も）を付ける
+ */
+export function formatDate(date: ParsedDate, format: DateFormat, withWeekday: boolean, original: string): string {
+  const pattern = format === 'keep' && /^\d+(\.\d+)?$/.test(original.trim()) ? 'YYYY/M/D' : format;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const era = ERAS.find(item =>
+    getDateTime({ ...date, time: null }) >= Date.UTC(item.start[0], item.start[1] - 1, item.start[2])
+  );
+
+  let text: string;
+  switch (pattern) {
+    case 'YYYY/MM/DD':
+      text = `${date.year}/${pad(date.month)}/${pad(date.day)}`;
+      break;
+    case 'YYYY-MM-DD':
+      text = `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+      break;
+    case 'YYYY/M/D':
+      text = `${date.year}/${date.month}/${date.day}`;
+      break;
+    case 'M/D':
+      text = `${date.month}/${date.day}`;
+      break;
+    case 'YYYY年M月D日':
+      text = `${date.year}年${date.month}月${date.day}日`;
+      break;
+    case 'M月D日':
+      text = `${date.month}月${date.day}日`;
+      break;
+    case 'era': {
+      // 明治より前は西暦で表記
+      if (!era) {
+        text = `${date.year}年${date.month}月${date.day}日`;
+        break;
+      }
+      const eraYear = date.year - era.start[0] + 1;
+      text = `${era.name}${eraYear === 1 ? '元' : eraYear}年${date.month}月${date.day}日`;
+      break;
+    }
+    default:
+      // 元の表記から既存の曜日を除いて使う
+      return withWeekday && !date.time
+        ? `${normalizeWidth(original.trim()).replace(WEEKDAY_PATTERN, '')}${formatWeekday(date)}`
+        : original;
+  }
+
+  if (withWeekday) {
+    text += formatWeekday(date);
+  }
+  if (date.time) {
+    const { hours, minutes, seconds } = date.time;
+    text += ` ${hours}:${pad(minutes)}${seconds > 0 ? `:${pad(seconds)}` : ''}`;
+  }
+  return text;
+}
+
+/**
+ * 曜日の表記（（月） の形式）
+ */
+function formatWeekday(date: ParsedDate): string {
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+  return `（${WEEKDAYS[weekday]}）`;
+}
@@ -0,0 +1,19 @@
+/**
+ * ファイルダウンロード
+ */
+
+/**
+ * Blobをファイルとしてダウンロード（サーバーを介さずブラウザ内で完結）
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // ダウンロード開始後に解放
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
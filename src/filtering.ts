@@ -0,0 +1,68 @@
+/**
+ * 絞り込み - 一致・部分一致・大小比較・上位N件で行を抽出
+ */
+
+import type { TableData, FilterRule } from './types';
+import { getColumnSources, isNumeric } from './formatter';
+import { toNumber } from './numbers';
+import { selectRows } from './table';
+
+/**
+ * 絞り込みルールをすべて満たす行を残す（元の順序を保つ）
+ * 値が空のルールは未入力とみなして無視する。上位N件は他の条件で絞り込んだ後に適用する
+ */
+export function filterRows(data: TableData, rules: FilterRule[]): TableData {
+  const sources = getColumnSources(data);
+  const activeRules = rules
+    .filter(rule => rule.value.trim() !== '')
+    .map(rule => ({ ...rule, column: sources.indexOf(rule.column) }))
+    .filter(rule => rule.column !== -1);
+  if (activeRules.length === 0) {
+    return data;
+  }
+
+  let indexes = data.rows.map((_, index) => index);
+
+  for (const rule of activeRules.filter(rule => rule.operator !== 'top')) {
+    indexes = indexes.filter(index => matchesRule(data.rows[index][rule.column] ?? '', rule));
+  }
+
+  for (const rule of activeRules.filter(rule => rule.operator === 'top')) {
+    const count = parseInt(rule.value, 10);
+    if (!Number.isInteger(count) || count < 0) continue;
+
+    // 数値の大きい順に上位N件を選び、元の順序に戻す
+    const topIndexes = new Set(
+      indexes
+        .filter(index => isNumeric(data.rows[index][rule.column] ?? ''))
+        .sort((a, b) => toNumber(data.rows[b][rule.column]) - toNumber(data.rows[a][rule.column]))
+        .slice(0, count)
+    );
+    indexes = indexes.filter(index => topIndexes.has(index));
+  }
+
+  return selectRows(data, indexes);
+}
+
+/**
+ * セルの値がルールを満たすか判定（大小比較は数値同士のみ）
+ */
+function matchesRule(cell: string, rule: FilterRule): boolean {
+  const value = cell.trim();
+  const target = rule.value.trim();
+
+  switch (rule.operator) {
+    case 'equals':
+      return value === target;
+    case 'contains':
+      return value.toLowerCase().includes(target.toLowerCase());
+    case 'greater':
+    case 'less': {
+      if (!isNumeric(value) || !isNumeric(target)) return false;
+      const difference = toNumber(value) - toNumber(target);
+      return rule.operator === 'greater' ? difference > 0 : difference < 0;
+    }
+    default:
+      return true;
+  }
+}
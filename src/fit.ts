@@ -0,0 +1,207 @@
+/**
+ * スライドに収める - スライドの領域に収まる分割数・密度・文字サイズを選ぶ
+ */
+
+import type { TableData, LayoutOptions, StyleOptions, SlideArea, SlidePreset, Density } from './types';
+import type { TableTextMetrics } from './renderer';
+import { paginate } from './transformer';
+import { measureTableText, estimateTableSize, resolveTheme, DENSITY_PADDING, LINE_HEIGHT_RATIO } from './renderer';
+
+/** スライドサイズのプリセット（px、96dpi。PowerPointの既定サイズ） */
+export const SLIDE_PRESETS: Record<Exclude<SlidePreset, 'custom'>, { width: number; height: number }> = {
+  '16:9': { width: 1280, height: 720 },
+  '4:3': { width: 960, height: 720 },
+};
+
+/** 1cmあたりのピクセル数（96dpi） */
+const PX_PER_CM = 96 / 2.54;
+
+/** 分割数の上限 */
+export const MAX_SPLIT = 10;
+
+/** 読みやすさを保つ最小の文字サイズ（px） */
+const MIN_FONT_SIZE = 10;
+
+/** 密度の候補（ゆったりした順） */
+const DENSITY_ORDER: Density[] = ['extra-comfortable', 'comfortable', 'standard', 'compact', 'extra-compact'];
+
+/** 分割の候補 */
+export interface SplitCandidate {
+  /** 分割数（行数固定モードでは1ブロックの行数） */
+  value: number;
+  layout: LayoutOptions;
+}
+
+/** スライドに収まる組み合わせ */
+export interface SlideFit extends SplitCandidate {
+  density: Density;
+  /** 文字サイズ（px） */
+  fontSize: number;
+}
+
+/**
+ * スライドの領域から余白を除いた、表を置ける大きさ（px）
+ */
+export function getSlideAreaSize(area: SlideArea): { width: number; height: number } {
+  const toPx = (value: number) => area.unit === 'cm' ? value * PX_PER_CM : value;
+  const slide = area.preset === 'custom'
+    ? { width: toPx(area.width), height: toPx(area.height) }
+    : SLIDE_PRESETS[area.preset];
+  const margin = toPx(area.margin) * 2;
+  return {
+    width: Math.max(0, slide.width - margin),
+    height: Math.max(0, slide.height - margin),
+  };
+}
+
+/**
+ * 分割の候補（1〜10分割）を列挙
+ * 行数固定モードでは「分割数に相当する1ブロックの行数」を候補にする（同じ行数になる候補は1つにまとめる）
+ */
+export function getSplitCandidates(itemCount: number, layout: LayoutOptions): SplitCandidate[] {
+  const isFixedRows = layout.fillOrder === 'fixed-rows';
+  const candidates: SplitCandidate[] = [];
+
+  for (let split = 1; split <= MAX_SPLIT; split++) {
+    const value = isFixedRows ? Math.max(1, Math.ceil(itemCount / split)) : split;
+    if (candidates.some(candidate => candidate.value === value)) continue;
+    candidates.push({
+      value,
+      layout: isFixedRows ? { ...layout, rowsPerBlock: value } : { ...layout, splitColumns: split },
+    });
+  }
+
+  return candidates;
+}
+
+/** スライドに収まるかの判定結果 */
+export interface SlideFitResult {
+  /** スライドに収まる中で最も大きく表示できる組み合わせ（収まらなければ null） */
+  fit: SlideFit | null;
+  /** 表示する密度・文字サイズでスライドからはみ出す分割の候補（値の集合） */
+  overflowing: Set<number>;
+}
+
+/** 分割の候補のページ分割と、各ページの文字幅・行数の計算（結果は使い回す） */
+interface CandidateMeasurer {
+  getPages: (candidate: SplitCandidate) => TableData[];
+  measure: (candidate: SplitCandidate, fontSize: number) => TableTextMetrics[];
+}
+
+/**
+ * スライドに収まる組み合わせと、はみ出す分割の候補を求める
+ * 組み合わせは文字サイズ（テーマの文字サイズから最小10pxまで）→ 密度（ゆったりした順）→ 分割数（少ない順）の優先で探す
+ * はみ出す候補は、自動調整が有効なら選んだ密度・文字サイズ、無効なら現在の密度・文字サイズで判定する
+ */
+export function analyzeSlideFit(data: TableData, layout: LayoutOptions, style: StyleOptions): SlideFitResult {
+  const area = getSlideAreaSize(layout.slideArea);
+  const candidates = getSplitCandidates(data.rows.length, layout);
+  const measurer = createCandidateMeasurer(data, style);
+  const themeFontSize = resolveTheme(style).fontSize;
+
+  // 行数だけで高さが収まらない候補は、文字幅を測らずに除く
+  const fits = (candidate: SplitCandidate, density: Density, fontSize: number) =>
+    fitsRowCount(measurer.getPages(candidate), density, fontSize, area)
+    && fitsArea(measurer.measure(candidate, fontSize), density, fontSize, area);
+
+  const fit = findSlideFit(candidates, fits, themeFontSize);
+  const applied = layout.fitToSlide ? fit : null;
+  const density = applied ? applied.density : style.density;
+  const fontSize = applied ? applied.fontSize : style.fontSize > 0 ? style.fontSize : themeFontSize;
+
+  return {
+    fit,
+    overflowing: new Set(candidates
+      .filter(candidate => !fits(candidate, density, fontSize))
+      .map(candidate => candidate.value)),
+  };
+}
+
+/**
+ * スライドに収まる中で最も大きく表示できる組み合わせを選ぶ（収まらなければ null）
+ */
+function findSlideFit(
+  candidates: SplitCandidate[],
+  fits: (candidate: SplitCandidate, density: Density, fontSize: number) => boolean,
+  maxFontSize: number
+): SlideFit | null {
+  for (let fontSize = maxFontSize; fontSize >= Math.min(MIN_FONT_SIZE, maxFontSize); fontSize--) {
+    for (const density of DENSITY_ORDER) {
+      const candidate = candidates.find(item => fits(item, density, fontSize));
+      if (candidate) {
+        return { value: candidate.value, layout: candidate.layout, density, fontSize };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * 分割の候補ごとのページ分割・文字幅・行数を、必要になった候補・文字サイズだけ計算して使い回す
+ * 折り返しがなければ文字幅は文字サイズに比例し行数は変わらないため、1pxで一度だけ測って拡大する
+ */
+function createCandidateMeasurer(data: TableData, style: StyleOptions): CandidateMeasurer {
+  const wrapsText = style.maxColumnWidth > 0 || Object.keys(style.columnMaxWidths || {}).length > 0;
+  const pagesCache = new Map<number, TableData[]>();
+  const metricsCache = new Map<string, TableTextMetrics[]>();
+
+  const getPages = (candidate: SplitCandidate) => {
+    let pages = pagesCache.get(candidate.value);
+    if (!pages) {
+      pages = paginate(data, candidate.layout);
+      pagesCache.set(candidate.value, pages);
+    }
+    return pages;
+  };
+
+  const measure = (candidate: SplitCandidate, fontSize: number) => {
+    const measureSize = wrapsText ? fontSize : 1;
+    const key = `${candidate.value}:${measureSize}`;
+    let metrics = metricsCache.get(key);
+    if (!metrics) {
+      metrics = getPages(candidate).map(page => measureTableText(page, style, measureSize));
+      metricsCache.set(key, metrics);
+    }
+    if (wrapsText) return metrics;
+
+    return metrics.map(page => ({
+      ...page,
+      columnWidths: page.columnWidths.map(width => width === null ? null : width * fontSize),
+    }));
+  };
+
+  return { getPages, measure };
+}
+
+/**
+ * すべての行を1行のセルとみなしても、各ページの高さが領域に収まるか（高さの下限による事前判定）
+ */
+function fitsRowCount(
+  pages: TableData[],
+  density: Density,
+  fontSize: number,
+  area: { width: number; height: number }
+): boolean {
+  const rowHeight = Math.ceil(fontSize * LINE_HEIGHT_RATIO + DENSITY_PADDING[density].vertical * 2);
+  return pages.every(page => {
+    const rowCount = page.rows.length
+      + (page.hasHeader && page.headers.some(h => h !== '') ? 1 : 0)
+      + (page.footer ? 1 : 0);
+    return rowCount * rowHeight <= area.height;
+  });
+}
+
+/**
+ * すべてのページが領域に収まるか
+ */
+function fitsArea(
+  pages: TableTextMetrics[],
+  density: Density,
+  fontSize: number,
+  area: { width: number; height: number }
+): boolean {
+  return pages.every(page => {
+    const size = estimateTableSize(page, DENSITY_PADDING[density], fontSize);
+    return size.width <= area.width && size.height <= area.height;
+  });
+}
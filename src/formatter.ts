@@ -1,105 +1,228 @@
 /**
- * データ加工 - 連番付与、数値フォーマット、配置検出
+ * データ加工 - 連番付与、数値・日付フォーマット、列の種類と配置の検出
  */
 
-import type { TableData, Alignment } from './types';
+import type {
+  TableData, Alignment, CellMeta, ColumnNumberFormat, NumberFormat, ColumnType, DateFormat,
+} from './types';
+import { prependMetaColumn, getRowKind, getCellMeta } from './table';
+import { formatNumericText, isNumericValue, DEFAULT_NUMBER_FORMAT } from './numbers';
+import { parseDateValue, formatDate } from './dates';
+
+/** 連番列の列由来（元データに存在しない列） */
+export const NUMBER_COLUMN_SOURCE = -1;
+
+/** 日付列とみなす見出し（値がシリアル値だけの列の判定に使用） */
+const DATE_HEADER_PATTERN = /日付|年月日|日時|date/i;
+
+/** 列の種類ごとの配置 */
+const COLUMN_TYPE_ALIGNMENTS: Record<ColumnType, Alignment> = {
+  text: 'left',
+  number: 'right',
+  date: 'center',
+};
+
+/**
+ * 各列の由来（元データの列インデックス）を取得
+ * 未設定の場合は列インデックスそのもの
+ */
+export function getColumnSources(data: TableData): number[] {
+  return data.columnSources ?? data.headers.map((_, index) => index);
+}
 
 /**
  * 連番列を先頭に追加
+ * グループ見出し・小計行には番号を振らない。restartPerGroup が true ならグループごとに1から振り直す
  */
-export function addRowNumbers(data: TableData): TableData {
+export function addRowNumbers(data: TableData, restartPerGroup = false): TableData {
   const numberedHeaders = ['No.', ...data.headers];
   
   let currentNumber = 1;
-  const numberedRows = data.rows.map(row => {
-    // 空行（全セルが空）はスキップ
+  const numberedRows = data.rows.map((row, rowIndex) => {
+    const rowKind = getRowKind(data, rowIndex);
+    if (rowKind === 'group') {
+      if (restartPerGroup) {
+        currentNumber = 1;
+      }
+      // 見出しは連番列から始める
+      return [row[0] ?? '', '', ...row.slice(1)];
+    }
+
+    // 空行（全セルが空）と小計行はスキップ
     const isEmpty = row.every(cell => cell === '');
-    if (isEmpty) {
+    if (isEmpty || rowKind === 'subtotal') {
       return ['', ...row];
     }
     return [String(currentNumber++), ...row];
   });
 
+  // 見出し・小計行の連番列は、行の付加情報（結合・行の種類）を引き継ぐ
+  const meta = prependMetaColumn(data);
+  const cellMeta = meta.cellMeta?.map((row, rowIndex) =>
+    getRowKind(data, rowIndex) === 'data' ? row : [row[1], ...row.slice(1)]
+  );
+
   return {
+    ...data,
     headers: numberedHeaders,
     rows: numberedRows,
-    hasHeader: data.hasHeader,
+    columnSources: [NUMBER_COLUMN_SOURCE, ...getColumnSources(data)],
+    headerMeta: meta.headerMeta,
+    cellMeta,
+  };
+}
+
+/**
+ * 日付列の値を書式に従って揃える（シリアル値も日付に変換）
+ * グループ見出しは日付として読める場合のみ変換する
+ */
+export function formatDates(data: TableData, format: DateFormat, withWeekday: boolean): TableData {
+  const dateColumns = detectColumnTypes(data)
+    .map((type, col) => type === 'date' ? col : -1)
+    .filter(col => col !== -1);
+  if (dateColumns.length === 0) {
+    return data;
+  }
+
+  const formatCell = (value: string, allowSerial: boolean) => {
+    const date = parseDateValue(value, allowSerial);
+    return date ? formatDate(date, format, withWeekday, value) : value;
+  };
+
+  const rows = data.rows.map((row, rowIndex) => {
+    if (getRowKind(data, rowIndex) === 'group') {
+      return row.map(cell => formatCell(cell, false));
+    }
+    const formatted = [...row];
+    for (const col of dateColumns) {
+      formatted[col] = formatCell(row[col] ?? '', true);
+    }
+    return formatted;
+  });
+
+  return {
+    ...data,
+    rows,
   };
 }
 
 /**
- * 数値を3桁区切りにフォーマット
+ * 数値を書式に従ってフォーマット（グループ見出しはそのまま、集計行も対象）
+ * 書式の指定がない列は formatUnspecified が true のときだけ3桁区切りにする（日付列は対象外）
  */
-export function formatNumbers(data: TableData): TableData {
-  const formattedRows = data.rows.map(row =>
-    row.map(cell => formatNumberCell(cell))
+export function formatNumbers(
+  data: TableData,
+  columnFormats: ColumnNumberFormat[] = [],
+  formatUnspecified = true
+): TableData {
+  const columnTypes = detectColumnTypes(data);
+  const formats = getColumnSources(data).map((source, col) =>
+    columnFormats.find(format => format.column === source)
+      ?? (formatUnspecified && columnTypes[col] !== 'date' ? DEFAULT_NUMBER_FORMAT : null)
+  );
+
+  const cellMeta: (CellMeta | undefined)[][] = [];
+  const formattedRows = data.rows.map((row, rowIndex) => {
+    const rowMeta = [...(data.cellMeta?.[rowIndex] ?? [])];
+    cellMeta.push(rowMeta);
+    if (getRowKind(data, rowIndex) === 'group') {
+      return row;
+    }
+    return row.map((cell, col) => formatNumberCell(cell, formats[col], rowMeta, col));
+  });
+
+  const footerMeta = [...(data.footerMeta ?? [])];
+  const footer = data.footer?.map((cell, col) =>
+    cell === null ? null : formatNumberCell(cell, formats[col], footerMeta, col)
   );
 
   return {
-    headers: data.headers,
+    ...data,
     rows: formattedRows,
-    hasHeader: data.hasHeader,
+    cellMeta: data.cellMeta || cellMeta.some(row => row.length > 0) ? cellMeta : undefined,
+    footer,
+    footerMeta: footerMeta.length > 0 ? footerMeta : undefined,
   };
 }
 
 /**
- * セルの値が数値なら3桁区切りに変換
+ * セルの値が数値なら書式に従って変換
+ * 負数を赤字にする場合はセルの付加情報に記録する
  */
-function formatNumberCell(value: string): string {
-  const trimmed = value.trim();
-  if (!trimmed) return value;
-
-  // 数値かどうかチェック（整数または小数）
-  const numericPattern = /^-?\d+(\.\d+)?$/;
-  if (!numericPattern.test(trimmed)) {
-    return value;
+function formatNumberCell(
+  value: string,
+  format: NumberFormat | null,
+  rowMeta: (CellMeta | undefined)[],
+  col: number
+): string {
+  if (!format || !value.trim()) return value;
+
+  const formatted = formatNumericText(value, format);
+  if (formatted.negative) {
+    rowMeta[col] = { ...rowMeta[col], negative: true };
   }
-
-  const num = parseFloat(trimmed);
-  if (isNaN(num)) return value;
-
-  // 3桁区切りでフォーマット
-  return num.toLocaleString('ja-JP');
+  return formatted.text;
 }
 
 /**
- * 列ごとの配置を自動検出
+ * 列ごとの配置を自動検出（数値は右寄せ、日付は中央揃え、それ以外は左寄せ）
  */
 export function detectAlignment(data: TableData): Alignment[] {
-  const columnCount = data.headers.length;
-  const alignments: Alignment[] = [];
+  return detectColumnTypes(data).map(type => COLUMN_TYPE_ALIGNMENTS[type]);
+}
 
-  for (let col = 0; col < columnCount; col++) {
-    const columnValues = data.rows.map(row => row[col] || '');
-    alignments.push(detectColumnAlignment(columnValues));
-  }
+/**
+ * 列ごとの種類を値から判定（グループ見出し・小計行は判定に含めない）
+ */
+export function detectColumnTypes(data: TableData): ColumnType[] {
+  return data.headers.map((header, col) => {
+    const columnValues = data.rows
+      .filter((_, rowIndex) => !getCellMeta(data, rowIndex, col)?.rowKind)
+      .map(row => row[col] || '');
+    return detectColumnType(columnValues, header);
+  });
+}
 
-  return alignments;
+/**
+ * 手動指定・入力データ指定の配置で自動検出結果を上書き（手動指定 > 入力データ指定 > 自動検出）
+ * 指定は元データの列インデックスをキーとするため、段組み後の複製列にも同じ配置が適用される
+ */
+export function applyAlignmentOverrides(
+  alignments: Alignment[],
+  data: TableData,
+  overrides: Record<string, Alignment>
+): Alignment[] {
+  const sources = getColumnSources(data);
+  return alignments.map((alignment, col) =>
+    overrides[String(sources[col])] ?? data.sourceAlignments?.[sources[col]] ?? alignment
+  );
 }
 
 /**
- * 列の値から配置を判定
- * 数値が多ければ右寄せ、それ以外は左寄せ
+ * 列の値から種類を判定
+ * 日付が多ければ日付、数値が多ければ数値、それ以外は文字列
+ * 見出しが日付らしく、値がすべてExcelのシリアル値の列も日付とみなす
  */
-function detectColumnAlignment(values: string[]): Alignment {
+function detectColumnType(values: string[], header: string): ColumnType {
   const nonEmptyValues = values.filter(v => v.trim() !== '');
-  if (nonEmptyValues.length === 0) return 'left';
+  if (nonEmptyValues.length === 0) return 'text';
 
-  const numericCount = nonEmptyValues.filter(v => isNumeric(v)).length;
-  const numericRatio = numericCount / nonEmptyValues.length;
+  // 50%以上が日付・数値ならその種類
+  const dateCount = nonEmptyValues.filter(v => parseDateValue(v) !== null).length;
+  if (dateCount / nonEmptyValues.length >= 0.5) return 'date';
+
+  if (DATE_HEADER_PATTERN.test(header)
+    && nonEmptyValues.every(v => /^\d+(\.\d+)?$/.test(v.trim()) && parseDateValue(v, true) !== null)) {
+    return 'date';
+  }
 
-  // 50%以上が数値なら右寄せ
-  return numericRatio >= 0.5 ? 'right' : 'left';
+  const numericCount = nonEmptyValues.filter(v => isNumeric(v)).length;
+  return numericCount / nonEmptyValues.length >= 0.5 ? 'number' : 'text';
 }
 
 /**
- * 値が数値かどうかチェック
+ * 値が数値かどうかチェック（3桁区切り・全角数字・%・通貨記号・▲の負数もOK）
  */
 export function isNumeric(value: string): boolean {
-  const trimmed = value.trim();
-  if (!trimmed) return false;
-
-  // 3桁区切りカンマを含む数値もOK
-  const numericPattern = /^-?[\d,]+(\.\d+)?$/;
-  return numericPattern.test(trimmed);
+  return isNumericValue(value);
 }
@@ -0,0 +1,91 @@
+/**
+ * グループ化 - 指定列の値ごとに行をまとめ、グループ見出し行・小計行を挿入
+ */
+
+import type { TableData, CellMeta } from './types';
+import { getColumnSources, detectColumnTypes } from './formatter';
+import { getNumericColumns, summarizeValues } from './summary';
+import { parseDateValue, getDateTime, formatDate } from './dates';
+
+/** 値が空のグループの見出し */
+const EMPTY_GROUP_LABEL = '（空白）';
+
+/** 小計行の見出し */
+const SUBTOTAL_LABEL = '小計';
+
+/**
+ * 指定列の値ごとに行をまとめる（グループは最初に現れた順、グループ内は元の順）
+ * 日付列は表記が違っても同じ日付を1つのグループにまとめ、見出しには最初に現れた表記を使う（シリアル値は日付に変換）
+ * 各グループの先頭に見出し行を挿入し、addSubtotals が true なら末尾に数値列の小計行を追加する
+ */
+export function groupRows(data: TableData, groupBy: number, addSubtotals: boolean): TableData {
+  const groupColumn = getColumnSources(data).indexOf(groupBy);
+  if (groupColumn === -1 || data.rows.length === 0) {
+    return data;
+  }
+
+  // 値ごとに行インデックスをまとめる
+  const isDateColumn = detectColumnTypes(data)[groupColumn] === 'date';
+  const groups = new Map<string, { label: string; indexes: number[] }>();
+  data.rows.forEach((row, index) => {
+    const value = (row[groupColumn] ?? '').trim();
+    const date = isDateColumn ? parseDateValue(value, true) : null;
+    const key = date ? `date:${getDateTime(date)}` : value;
+    const group = groups.get(key);
+    if (group) {
+      group.indexes.push(index);
+    } else {
+      groups.set(key, { label: date ? formatDate(date, 'keep', false, value) : value, indexes: [index] });
+    }
+  });
+
+  const columnCount = data.headers.length;
+  const numericColumns = addSubtotals
+    ? getNumericColumns(data).filter(col => col !== groupColumn)
+    : [];
+  const rows: string[][] = [];
+  const cellMeta: (CellMeta | undefined)[][] = [];
+
+  let groupIndex = 0;
+  for (const { label, indexes } of groups.values()) {
+    // 見出し行（行全体を1つのセルに結合し、値は先頭セルに置く）
+    const groupMeta: CellMeta = { mergeId: `group-${groupIndex++}`, rowKind: 'group' };
+    rows.push([label || EMPTY_GROUP_LABEL, ...Array(columnCount - 1).fill('')]);
+    cellMeta.push(Array(columnCount).fill(groupMeta));
+
+    for (const index of indexes) {
+      rows.push(data.rows[index]);
+      cellMeta.push(data.cellMeta?.[index] || []);
+    }
+
+    if (numericColumns.length > 0) {
+      rows.push(buildSubtotalRow(data, indexes, numericColumns, groupColumn));
+      cellMeta.push(Array(columnCount).fill({ rowKind: 'subtotal' }));
+    }
+  }
+
+  return {
+    ...data,
+    rows,
+    cellMeta,
+  };
+}
+
+/**
+ * 小計行を生成（見出しはグループ化した列に置く）
+ */
+function buildSubtotalRow(
+  data: TableData,
+  indexes: number[],
+  numericColumns: number[],
+  groupColumn: number
+): string[] {
+  const row: string[] = Array(data.headers.length).fill('');
+  row[groupColumn] = SUBTOTAL_LABEL;
+
+  for (const col of numericColumns) {
+    row[col] = summarizeValues(indexes.map(index => data.rows[index][col] ?? ''), 'sum');
+  }
+
+  return row;
+}
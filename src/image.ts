@@ -0,0 +1,226 @@
+/**
+ * 画像出力 - テーブルをSVGとして描画し、PNGにラスタライズする
+ */
+
+import type { TableData, StyleOptions, ImageOptions, TableModel, RenderCell, TableBorder } from './types';
+import { buildTableModel, calculateRowHeight, getModelRows, getRenderedColumnWidths, LINE_HEIGHT_RATIO } from './renderer';
+import { escapeXml } from './xml';
+
+/** 複数ページを縦に並べる際の間隔（px） */
+const PAGE_GAP = 24;
+
+/** 既定の文字色 */
+const DEFAULT_TEXT_COLOR = '#000000';
+
+/** SVG描画結果 */
+export interface SvgImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * ページごとのテーブルをSVGとして描画（複数ページは縦に並べる）
+ */
+export function renderSvg(pages: TableData[], style: StyleOptions, options: ImageOptions): SvgImage | null {
+  const models = pages
+    .map(page => buildTableModel(page, style))
+    .filter((model): model is TableModel => model !== null);
+  if (models.length === 0) {
+    return null;
+  }
+
+  let body = '';
+  let width = 0;
+  let offsetY = 0;
+
+  models.forEach((model, index) => {
+    if (index > 0) {
+      offsetY += PAGE_GAP;
+    }
+    const table = renderTableSvg(model, offsetY);
+    body += table.svg;
+    width = Math.max(width, table.width);
+    offsetY += table.height;
+  });
+
+  const height = offsetY;
+  const background = options.transparent
+    ? ''
+    : `<rect x="0" y="0" width="${width}" height="${height}" fill="#FFFFFF"/>`;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    + background
+    + body
+    + '</svg>';
+
+  return { svg, width, height };
+}
+
+/**
+ * 1つのテーブルをSVG要素として描画
+ */
+function renderTableSvg(model: TableModel, offsetY: number): SvgImage {
+  const columnWidths = getRenderedColumnWidths(model);
+  const columnX: number[] = [];
+  let width = 0;
+  for (const columnWidth of columnWidths) {
+    columnX.push(width);
+    width += columnWidth;
+  }
+
+  const allRows = getModelRows(model);
+  const rowHeights = allRows.map(row => calculateRowHeight(row, model));
+  const rowY: number[] = [];
+  let y = offsetY;
+  for (const rowHeight of rowHeights) {
+    rowY.push(y);
+    y += rowHeight;
+  }
+
+  const sum = (values: number[], start: number, count: number) =>
+    values.slice(start, start + count).reduce((total, value) => total + value, 0);
+
+  const fills: string[] = [];
+  const texts: string[] = [];
+  const borders: string[] = [];
+
+  allRows.forEach((row, rowIndex) => {
+    row.forEach((cell, colIndex) => {
+      if (cell.isSeparator || cell.isCovered) return;
+
+      // 結合セルは結合範囲全体を1つのセルとして描画
+      const x = columnX[colIndex];
+      const cellY = rowY[rowIndex];
+      const cellWidth = sum(columnWidths, colIndex, cell.colSpan);
+      const cellHeight = sum(rowHeights, rowIndex, cell.rowSpan);
+      fills.push(`<rect x="${x}" y="${cellY}" width="${cellWidth}" height="${cellHeight}" fill="${cell.backgroundColor}"/>`);
+      if (cell.dataBar) {
+        fills.push(
+          `<rect x="${x}" y="${cellY}" width="${cellWidth * cell.dataBar.ratio}" height="${cellHeight}"`
+          + ` fill="${cell.dataBar.color}"/>`
+        );
+      }
+      texts.push(renderCellText(cell, x, cellY, cellWidth, cellHeight, model));
+      if (model.border.width > 0) {
+        borders.push(
+          `<rect x="${x + 0.5}" y="${cellY + 0.5}" width="${cellWidth - 1}" height="${cellHeight - 1}"`
+          + ` fill="none" stroke="${model.border.color}" stroke-width="${model.border.width}"/>`
+        );
+      }
+      // ヘッダー下の罫線（通常の罫線と異なる場合に重ねる）
+      if (model.header && rowIndex === 0 && model.headerBorder.width > 0 && !isSameBorder(model.headerBorder, model.border)) {
+        const lineY = cellY + cellHeight - model.headerBorder.width / 2;
+        borders.push(
+          `<line x1="${x}" y1="${lineY}" x2="${x + cellWidth}" y2="${lineY}"`
+          + ` stroke="${model.headerBorder.color}" stroke-width="${model.headerBorder.width}"/>`
+        );
+      }
+      if (cell.isBlockBoundary) {
+        const lineX = x + cellWidth - model.boundaryBorder.width / 2;
+        borders.push(
+          `<line x1="${lineX}" y1="${cellY}" x2="${lineX}" y2="${cellY + cellHeight}"`
+          + ` stroke="${model.boundaryBorder.color}" stroke-width="${model.boundaryBorder.width}"/>`
+        );
+      }
+    });
+  });
+
+  const fontFamily = escapeXml(model.fontFamily);
+  const svg = '<g>'
+    + fills.join('')
+    + borders.join('')
+    + `<g font-family="${fontFamily}" font-size="${model.fontSize}">${texts.join('')}</g>`
+    + '</g>';
+
+  return { svg, width, height: y - offsetY };
+}
+
+/**
+ * セル内テキストを描画（配置・太字・斜体・セル内改行に対応）
+ */
+function renderCellText(
+  cell: RenderCell,
+  x: number,
+  y: number,
+  cellWidth: number,
+  rowHeight: number,
+  model: TableModel
+): string {
+  if (cell.value === '') return '';
+
+  const lines = cell.value.split('\n');
+  // 複数行・結合セルでも上下中央に揃える
+  const lineHeight = model.fontSize * LINE_HEIGHT_RATIO;
+  const textTop = y + (rowHeight - lineHeight * lines.length) / 2;
+  const anchor = cell.alignment === 'right' ? 'end' : cell.alignment === 'center' ? 'middle' : 'start';
+  const textX = cell.alignment === 'right'
+    ? x + cellWidth - model.padding.horizontal
+    : cell.alignment === 'center'
+      ? x + cellWidth / 2
+      : x + model.padding.horizontal;
+
+  const attributes = [
+    `text-anchor="${anchor}"`,
+    'dominant-baseline="central"',
+    `fill="${cell.color || DEFAULT_TEXT_COLOR}"`,
+  ];
+  if (cell.bold) {
+    attributes.push('font-weight="bold"');
+  }
+  if (cell.italic) {
+    attributes.push('font-style="italic"');
+  }
+
+  const tspans = lines.map((line, index) => {
+    const lineY = textTop + lineHeight * (index + 0.5);
+    return `<tspan x="${textX}" y="${lineY}">${escapeXml(line)}</tspan>`;
+  }).join('');
+
+  return `<text ${attributes.join(' ')} xml:space="preserve">${tspans}</text>`;
+}
+
+/**
+ * SVGをPNGにラスタライズ（倍率指定）
+ */
+export function rasterizeSvg(image: SvgImage, scale: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(image.width * scale);
+      canvas.height = Math.ceil(image.height * scale);
+
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas 2D context is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(img, 0, 0, image.width, image.height);
+
+      canvas.toBlob(blob => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Failed to encode PNG'));
+        }
+      }, 'image/png');
+    };
+    img.onerror = () => reject(new Error('Failed to load SVG image'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(image.svg)}`;
+  });
+}
+
+/**
+ * ページごとのテーブルからPNG画像を生成
+ */
+export async function renderPng(pages: TableData[], style: StyleOptions, options: ImageOptions): Promise<Blob | null> {
+  const image = renderSvg(pages, style, options);
+  if (!image) return null;
+  return rasterizeSvg(image, options.scale);
+}
+
+function isSameBorder(a: TableBorder, b: TableBorder): boolean {
+  return a.width === b.width && a.color.toUpperCase() === b.color.toUpperCase();
+}
@@ -3,30 +3,106 @@
  */
 
 import './style.css';
-import type { AllOptions, TableData, ThemeName, Density, SeparatorType, HighlightPreset } from './types';
-import { parseInput, normalizeColumns } from './parser';
-import { transformLayout } from './transformer';
-import { addRowNumbers, formatNumbers } from './formatter';
-import { renderTable, renderPlainText } from './renderer';
-import { copyToClipboard, showToast } from './clipboard';
-import { saveData, loadData } from './storage';
+import type {
+  AllOptions, LayoutOptions, TableData, CustomTheme, Density, SeparatorType, HighlightPreset, FillOrder, ImageScale,
+  Alignment, ColumnAlignment, Delimiter, ColumnSetting, SortKey, SortDirection, FilterRule, FilterOperator,
+  FooterPlacement, SummaryFunction, ColumnNumberFormat, SlidePreset, SlideUnit, NumberUnit, NumberSymbol, NegativeStyle, DateFormat,
+  ConditionalRule, ConditionOperator, ColorScale, DataBar, HighlightGroup, HighlightMatchMode, HighlightScope, PasteTarget,
+} from './types';
+import { parseInput, parseHtmlInput, normalizeColumns } from './parser';
+import { paginate, transpose, getBlockRowIndexes, getPageCount, getPageLayout } from './transformer';
+import { addRowNumbers, formatNumbers, formatDates, getColumnSources } from './formatter';
+import { groupRows } from './grouping';
+import { addSummaryFooter } from './summary';
+import { reconcileColumnSettings, applyColumnSettings } from './columns';
+import { sortRows } from './sorting';
+import { filterRows } from './filtering';
+import {
+  renderTable, renderPlainText, renderMarkdown, applyConditionalFormats, applyHighlights, getHighlightColor,
+  resolveTheme, isBuiltinTheme,
+} from './renderer';
+import { copyToClipboard, copyTextToClipboard, showToast } from './clipboard';
+import type { ClipboardContent, ClipboardFlavor } from './clipboard';
+import { saveData, loadData, isValidCustomThemes } from './storage';
+import { createPptx } from './pptx';
+import { downloadBlob } from './download';
+import { renderSvg, renderPng } from './image';
+import { renderRtf } from './rtf';
+import { exportThemes, parseThemes, mergeThemes, importPowerPointTheme, normalizeFontFamily } from './themes';
+import { analyzeSlideFit, getSplitCandidates, SLIDE_PRESETS } from './fit';
+import type { SlideFit } from './fit';
 
 // DOM要素
 const elements = {
   dataInput: document.getElementById('data-input') as HTMLTextAreaElement,
   splitColumns: document.getElementById('split-columns') as HTMLInputElement,
   headerOption: document.getElementById('header-option') as HTMLInputElement,
+  delimiter: document.getElementById('delimiter') as HTMLDivElement,
   separatorType: document.getElementById('separator-type') as HTMLDivElement,
+  fillOrder: document.getElementById('fill-order') as HTMLDivElement,
+  rowsPerBlock: document.getElementById('rows-per-block') as HTMLInputElement,
+  rowsPerBlockRow: document.getElementById('rows-per-block-row') as HTMLDivElement,
+  maxRowsPerSlide: document.getElementById('max-rows-per-slide') as HTMLInputElement,
+  fitToSlide: document.getElementById('fit-to-slide') as HTMLInputElement,
+  slidePreset: document.getElementById('slide-preset') as HTMLDivElement,
+  slideSizeRow: document.getElementById('slide-size-row') as HTMLDivElement,
+  slideWidth: document.getElementById('slide-width') as HTMLInputElement,
+  slideHeight: document.getElementById('slide-height') as HTMLInputElement,
+  slideMargin: document.getElementById('slide-margin') as HTMLInputElement,
+  slideUnit: document.getElementById('slide-unit') as HTMLDivElement,
+  transpose: document.getElementById('transpose') as HTMLInputElement,
   addNumbers: document.getElementById('add-numbers') as HTMLInputElement,
   formatNumbers: document.getElementById('format-numbers') as HTMLInputElement,
+  numberFormats: document.getElementById('number-formats') as HTMLDivElement,
+  addNumberFormat: document.getElementById('add-number-format') as HTMLButtonElement,
+  dateFormat: document.getElementById('date-format') as HTMLSelectElement,
+  dateWeekday: document.getElementById('date-weekday') as HTMLInputElement,
   theme: document.getElementById('theme') as HTMLDivElement,
+  themeEditor: document.getElementById('theme-editor') as HTMLDivElement,
+  saveTheme: document.getElementById('save-theme') as HTMLButtonElement,
+  deleteTheme: document.getElementById('delete-theme') as HTMLButtonElement,
+  importTheme: document.getElementById('import-theme') as HTMLButtonElement,
+  exportTheme: document.getElementById('export-theme') as HTMLButtonElement,
+  themeFile: document.getElementById('theme-file') as HTMLInputElement,
   zebra: document.getElementById('zebra') as HTMLInputElement,
+  fontSize: document.getElementById('font-size') as HTMLInputElement,
+  keepSourceFormatting: document.getElementById('keep-source-formatting') as HTMLInputElement,
+  autoMergeColumns: document.getElementById('auto-merge-columns') as HTMLDivElement,
+  groupBy: document.getElementById('group-by') as HTMLSelectElement,
+  groupSubtotals: document.getElementById('group-subtotals') as HTMLInputElement,
+  groupSubtotalsRow: document.getElementById('group-subtotals-row') as HTMLDivElement,
+  restartNumbering: document.getElementById('restart-numbering') as HTMLInputElement,
+  restartNumberingRow: document.getElementById('restart-numbering-row') as HTMLDivElement,
+  summary: document.getElementById('summary') as HTMLSelectElement,
+  footerPlacement: document.getElementById('footer-placement') as HTMLDivElement,
+  footerPlacementRow: document.getElementById('footer-placement-row') as HTMLDivElement,
+  columnList: document.getElementById('column-list') as HTMLUListElement,
+  resetColumns: document.getElementById('reset-columns') as HTMLButtonElement,
+  maxColumnWidth: document.getElementById('max-column-width') as HTMLInputElement,
+  sortKeys: document.getElementById('sort-keys') as HTMLDivElement,
+  addSortKey: document.getElementById('add-sort-key') as HTMLButtonElement,
+  filterRules: document.getElementById('filter-rules') as HTMLDivElement,
+  addFilterRule: document.getElementById('add-filter-rule') as HTMLButtonElement,
+  conditionalRules: document.getElementById('conditional-rules') as HTMLDivElement,
+  addConditionalRule: document.getElementById('add-conditional-rule') as HTMLButtonElement,
+  colorScales: document.getElementById('color-scales') as HTMLDivElement,
+  addColorScale: document.getElementById('add-color-scale') as HTMLButtonElement,
+  dataBars: document.getElementById('data-bars') as HTMLDivElement,
+  addDataBar: document.getElementById('add-data-bar') as HTMLButtonElement,
   density: document.getElementById('density') as HTMLInputElement,
-  highlightWords: document.getElementById('highlight-words') as HTMLTextAreaElement,
-  highlightPresets: document.getElementById('highlight-presets') as HTMLDivElement,
-  highlightCustomColor: document.getElementById('highlight-custom-color') as HTMLInputElement,
+  highlightGroups: document.getElementById('highlight-groups') as HTMLDivElement,
+  addHighlightGroup: document.getElementById('add-highlight-group') as HTMLButtonElement,
   preview: document.getElementById('preview') as HTMLDivElement,
   copyButton: document.getElementById('copy-button') as HTMLButtonElement,
+  copyButtonLabel: document.getElementById('copy-button-label') as HTMLSpanElement,
+  pptxButton: document.getElementById('pptx-button') as HTMLButtonElement,
+  svgButton: document.getElementById('svg-button') as HTMLButtonElement,
+  pngButton: document.getElementById('png-button') as HTMLButtonElement,
+  markdownButton: document.getElementById('markdown-button') as HTMLButtonElement,
+  imageScale: document.getElementById('image-scale') as HTMLDivElement,
+  imageTransparent: document.getElementById('image-transparent') as HTMLInputElement,
+  copyImage: document.getElementById('copy-image') as HTMLInputElement,
+  pasteTarget: document.getElementById('paste-target') as HTMLSelectElement,
   sampleButton: document.getElementById('sample-button') as HTMLButtonElement,
   // 分割情報表示
   inputItemCount: document.getElementById('input-item-count') as HTMLSpanElement,
@@ -47,19 +123,6 @@ function setSegmentValue(container: HTMLElement, value: string): void {
   });
 }
 
-/** 色ボタンのセグメント値を取得（data-color属性用） */
-function getColorSegmentValue(container: HTMLElement): string {
-  const active = container.querySelector('button.active');
-  return active?.getAttribute('data-color') || '';
-}
-
-/** 色ボタンのセグメント値を設定（data-color属性用） */
-function setColorSegmentValue(container: HTMLElement, value: string): void {
-  container.querySelectorAll('button').forEach(btn => {
-    btn.classList.toggle('active', btn.getAttribute('data-color') === value);
-  });
-}
-
 /** 密度スライダー値(1-5)からDensity型へ変換 (左=狭、右=広) */
 const DENSITY_MAP: Record<number, Density> = {
   1: 'extra-compact',
@@ -69,6 +132,26 @@ const DENSITY_MAP: Record<number, Density> = {
   5: 'extra-comfortable',
 };
 
+/** 密度の表示名 */
+const DENSITY_LABELS: Record<Density, string> = {
+  'extra-compact': '最も狭い',
+  'compact': '狭い',
+  'standard': '標準',
+  'comfortable': '広い',
+  'extra-comfortable': '最も広い',
+};
+
+/** クリップボードの形式の表示名 */
+const FLAVOR_LABELS: Record<ClipboardFlavor, string> = {
+  html: 'HTML',
+  text: 'テキスト',
+  rtf: 'RTF',
+  image: '画像',
+};
+
+/** 1cmあたりのピクセル数（96dpi） */
+const PX_PER_CM = 96 / 2.54;
+
 /** Density型からスライダー値(1-5)へ変換 */
 const DENSITY_REVERSE: Record<Density, number> = {
   'extra-compact': 1,
@@ -89,33 +172,252 @@ const SAMPLE_DATA = `名前	部署	売上
 渡辺六郎	開発部	567890
 中村七子	人事部	234567`;
 
-// 現在の生成結果を保持
+/** 1ページ（スライド）分の生成結果 */
+interface RenderedPage {
+  html: string;
+  plainText: string;
+  markdown: string;
+}
+
+// 現在の生成結果を保持（currentHtml / currentPlainText は全ページ分）
+let currentTables: TableData[] = [];
+let currentPages: RenderedPage[] = [];
 let currentHtml = '';
 let currentPlainText = '';
 
+/** HTMLで貼り付けた表（text は入力欄に展開したテキスト。編集されたら破棄） */
+let richInput: { html: string; text: string } | null = null;
+
+/** 列ごとの配置の手動指定（キーは元データの列インデックス） */
+let columnAlignments: Record<string, Alignment> = {};
+
+/** 列ごとの最大幅（px、キーは元データの列インデックス） */
+let columnMaxWidths: Record<string, number> = {};
+
+/** 同じ値が続くセルを結合する列（元データの列インデックス） */
+let autoMergeColumns: number[] = [];
+
+/** グループ化する列（元データの列インデックス） */
+let groupByColumn: number | null = null;
+
+/** 列の表示設定（表示順） */
+let columnSettings: ColumnSetting[] = [];
+
+/** 並べ替えキーと絞り込みルール */
+let sortKeys: SortKey[] = [];
+let filterRules: FilterRule[] = [];
+
+/** 列ごとの数値の書式 */
+let numberFormats: ColumnNumberFormat[] = [];
+
+/** 条件付き書式（ルール・カラースケール・データバー） */
+let conditionalRules: ConditionalRule[] = [];
+let colorScales: ColorScale[] = [];
+let dataBars: DataBar[] = [];
+
+/** ハイライトグループ */
+let highlightGroups: HighlightGroup[] = [];
+
+/** ユーザーが作成したカスタムテーマ */
+let customThemes: CustomTheme[] = [];
+
+/** 一覧形式で編集する項目 */
+type RuleItem = SortKey | FilterRule | ColumnNumberFormat | ConditionalRule | ColorScale | DataBar | HighlightGroup;
+
+/** 列を選ぶオプションの選択肢（現在のデータの列） */
+interface ColumnChoice {
+  /** 元データの列インデックス */
+  source: number;
+  label: string;
+}
+let columnChoices: ColumnChoice[] = [];
+
+/** 配置の切り替え順（ヘッダークリックで循環） */
+const ALIGNMENT_CYCLE: ColumnAlignment[] = ['auto', 'left', 'center', 'right'];
+
+/** 配置の表示名 */
+const ALIGNMENT_LABELS: Record<ColumnAlignment, string> = {
+  auto: '自動',
+  left: '左寄せ',
+  center: '中央揃え',
+  right: '右寄せ',
+};
+
+/** 並べ替えの向きの表示名 */
+const SORT_DIRECTION_LABELS: Record<SortDirection, string> = {
+  asc: '昇順',
+  desc: '降順',
+};
+
+/** 絞り込み条件の表示名 */
+const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: '等しい',
+  contains: '含む',
+  greater: 'より大きい',
+  less: 'より小さい',
+  top: '上位N件',
+};
+
+/** ハイライト色プリセットの表示名 */
+const HIGHLIGHT_PRESET_LABELS: Record<HighlightPreset, string> = {
+  yellow: '黄',
+  green: '緑',
+  pink: 'ピンク',
+  blue: '青',
+  orange: 'オレンジ',
+  custom: 'カスタム',
+};
+
+/** ハイライトの一致方法の表示名 */
+const HIGHLIGHT_MATCH_LABELS: Record<HighlightMatchMode, string> = {
+  exact: '完全一致',
+  contains: '部分一致',
+  regex: '正規表現',
+};
+
+/** ハイライトする範囲の表示名 */
+const HIGHLIGHT_SCOPE_LABELS: Record<HighlightScope, string> = {
+  cell: 'セル',
+  row: '行全体',
+  column: '列全体',
+};
+
+/** 条件付き書式の条件の表示名 */
+const CONDITION_OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  greater: 'より大きい',
+  less: 'より小さい',
+  between: '範囲内',
+  top: '上位N件',
+  bottom: '下位N件',
+  contains: '含む',
+  regex: '正規表現',
+};
+
+/** 条件付き書式の文字色の選択肢 */
+const CONDITION_TEXT_COLORS: Record<string, string> = {
+  '': '文字色なし',
+  '#9C0006': '濃い赤',
+  '#9C5700': '濃い黄',
+  '#006100': '濃い緑',
+  '#1F4E79': '濃い青',
+};
+
+/** 条件付き書式の背景色の選択肢 */
+const CONDITION_BACKGROUND_COLORS: Record<string, string> = {
+  '': '背景なし',
+  '#FFC7CE': '薄い赤',
+  '#FFEB9C': '薄い黄',
+  '#C6EFCE': '薄い緑',
+  '#DDEBF7': '薄い青',
+};
+
+/** カラースケールの選択肢（値は最小・中間・最大の色） */
+const COLOR_SCALE_PRESETS: Record<string, string> = {
+  '#F8696B,#FFEB84,#63BE7B': '赤 - 黄 - 緑',
+  '#63BE7B,#FFEB84,#F8696B': '緑 - 黄 - 赤',
+  '#5A8AC6,#FFFFFF,#F8696B': '青 - 白 - 赤',
+  '#FFFFFF,#63BE7B': '白 - 緑',
+  '#FFFFFF,#F8696B': '白 - 赤',
+};
+
+/** データバーの色の選択肢 */
+const DATA_BAR_COLORS: Record<string, string> = {
+  '#638EC6': '青',
+  '#63C384': '緑',
+  '#FFB628': 'オレンジ',
+  '#FF555A': '赤',
+};
+
+/** 数値の単位の表示名 */
+const NUMBER_UNIT_LABELS: Record<NumberUnit, string> = {
+  none: '単位なし',
+  thousand: '千',
+  'ten-thousand': '万',
+  'hundred-million': '億',
+};
+
+/** 数値の記号の表示名 */
+const NUMBER_SYMBOL_LABELS: Record<NumberSymbol, string> = {
+  keep: '記号そのまま',
+  none: '記号なし',
+  percent: '%',
+  yen: '¥',
+  dollar: '$',
+  euro: '€',
+};
+
+/** 負数の表示の表示名 */
+const NEGATIVE_STYLE_LABELS: Record<NegativeStyle, string> = {
+  keep: '負数そのまま',
+  minus: '-100',
+  triangle: '▲100',
+  parentheses: '(100)',
+  red: '赤字',
+};
+
 /**
  * 現在のオプション設定を取得
  */
 function getOptions(): AllOptions {
   const densityValue = parseInt(elements.density.value, 10);
+  const fontSize = parseInt(elements.fontSize.value, 10) || 0;
+  const maxColumnWidth = parseInt(elements.maxColumnWidth.value, 10) || 0;
   return {
     layout: {
       splitColumns: parseInt(elements.splitColumns.value, 10),
       separatorType: getSegmentValue(elements.separatorType) as SeparatorType,
+      fillOrder: (getSegmentValue(elements.fillOrder) as FillOrder) || 'down',
+      rowsPerBlock: Math.max(1, parseInt(elements.rowsPerBlock.value, 10) || 1),
+      maxRowsPerSlide: Math.max(0, parseInt(elements.maxRowsPerSlide.value, 10) || 0),
+      footerPlacement: (getSegmentValue(elements.footerPlacement) as FooterPlacement) || 'last',
+      fitToSlide: elements.fitToSlide.checked,
+      slideArea: {
+        preset: (getSegmentValue(elements.slidePreset) as SlidePreset) || '16:9',
+        width: Math.max(1, parseFloat(elements.slideWidth.value) || 0),
+        height: Math.max(1, parseFloat(elements.slideHeight.value) || 0),
+        unit: (getSegmentValue(elements.slideUnit) as SlideUnit) || 'cm',
+        margin: Math.max(0, parseFloat(elements.slideMargin.value) || 0),
+      },
     },
     style: {
-      theme: getSegmentValue(elements.theme) as ThemeName,
+      theme: getSegmentValue(elements.theme) || 'standard-blue',
+      customThemes: customThemes.map(theme => ({ ...theme })),
+      fontSize: fontSize >= 8 && fontSize <= 48 ? fontSize : 0,
       zebra: elements.zebra.checked,
       density: DENSITY_MAP[densityValue] || 'standard',
-      highlightWords: parseHighlightWords(elements.highlightWords.value),
-      highlightPreset: (getColorSegmentValue(elements.highlightPresets) as HighlightPreset) || 'yellow',
-      highlightCustomColor: elements.highlightCustomColor.value,
+      highlightGroups: highlightGroups.map(group => ({ ...group, words: [...group.words] })),
+      columnAlignments: { ...columnAlignments },
+      maxColumnWidth: Math.min(Math.max(0, maxColumnWidth), 2000),
+      columnMaxWidths: { ...columnMaxWidths },
+      keepSourceFormatting: elements.keepSourceFormatting.checked,
+      autoMergeColumns: [...autoMergeColumns],
+      conditionalRules: conditionalRules.map(rule => ({ ...rule })),
+      colorScales: colorScales.map(scale => ({ ...scale, colors: [...scale.colors] })),
+      dataBars: dataBars.map(bar => ({ ...bar })),
     },
     format: {
+      transpose: elements.transpose.checked,
       addNumbers: elements.addNumbers.checked,
       formatNumbers: elements.formatNumbers.checked,
+      groupBy: groupByColumn,
+      groupSubtotals: elements.groupSubtotals.checked,
+      restartNumbering: elements.restartNumbering.checked,
+      summary: (elements.summary.value as SummaryFunction) || null,
+      numberFormats: numberFormats.map(format => ({ ...format })),
+      dateFormat: (elements.dateFormat.value as DateFormat) || 'keep',
+      dateWeekday: elements.dateWeekday.checked,
+    },
+    image: {
+      scale: (parseInt(getSegmentValue(elements.imageScale), 10) || 2) as ImageScale,
+      transparent: elements.imageTransparent.checked,
+      copyImage: elements.copyImage.checked,
     },
     hasHeader: elements.headerOption.checked,
+    delimiter: (getSegmentValue(elements.delimiter) as Delimiter) || 'auto',
+    columns: columnSettings.map(setting => ({ ...setting })),
+    sort: sortKeys.map(key => ({ ...key })),
+    filters: filterRules.map(rule => ({ ...rule })),
+    pasteTarget: elements.pasteTarget.value as PasteTarget,
   };
 }
 
@@ -129,42 +431,178 @@ function updatePreview(): void {
   if (!inputText.trim()) {
     elements.preview.innerHTML = '<p class="placeholder-text">データを入力するとプレビューが表示されます</p>';
     elements.preview.className = 'preview-area';
+    currentTables = [];
+    currentPages = [];
     currentHtml = '';
     currentPlainText = '';
+    updateCopyButtonLabel();
     return;
   }
 
-  // 1. パース
-  let data: TableData = parseInput(inputText, options.hasHeader);
+  // 1. パース（HTMLで貼り付けた表が編集されていなければ、書式・結合を含めて取り込む）
+  if (richInput && richInput.text !== inputText) {
+    richInput = null;
+  }
+  let data: TableData = (richInput && parseHtmlInput(richInput.html, options.hasHeader))
+    || parseInput(inputText, options.hasHeader, options.delimiter);
   data = normalizeColumns(data);
 
-  // 2. データ加工
+  // 列の表示設定（再貼り付けしても同じ見出しの列に設定を引き継ぐ）
+  columnSettings = reconcileColumnSettings(columnSettings, data.headers);
+  options.columns = columnSettings.map(setting => ({ ...setting }));
+  renderColumnList();
+  data = applyColumnSettings(data, columnSettings);
+
+  if (options.format.transpose) {
+    data = transpose(data);
+  }
+  renderColumnOptions(data);
+
+  // 2. 絞り込み・並べ替え
+  data = sortRows(filterRows(data, options.filters), options.sort);
+
+  // 3. データ加工
+  if (options.format.groupBy !== null) {
+    data = groupRows(data, options.format.groupBy, options.format.groupSubtotals);
+  }
   if (options.format.addNumbers) {
-    data = addRowNumbers(data);
+    data = addRowNumbers(data, options.format.restartNumbering);
+  }
+  if (options.format.summary) {
+    data = addSummaryFooter(data, options.format.summary);
   }
-  if (options.format.formatNumbers) {
-    data = formatNumbers(data);
+  data = applyConditionalFormats(data, options.style);
+  data = formatDates(data, options.format.dateFormat, options.format.dateWeekday);
+  if (options.format.formatNumbers || options.format.numberFormats.length > 0) {
+    data = formatNumbers(data, options.format.numberFormats, options.format.formatNumbers);
   }
+  data = applyHighlights(data, options.style.highlightGroups);
 
   // 分割前の行数を保存
   const originalRowCount = data.rows.length;
 
-  // 3. レイアウト変換
-  data = transformLayout(data, options.layout);
+  // 4. スライドに収まる分割数・密度・文字サイズ（自動調整が有効なら適用し、操作欄にも反映）
+  const { fit: slideFit, overflowing: overflowingSplits } = analyzeSlideFit(data, options.layout, options.style);
+  if (options.layout.fitToSlide && slideFit) {
+    options.layout = slideFit.layout;
+    options.style = { ...options.style, density: slideFit.density, fontSize: slideFit.fontSize };
+    elements.splitColumns.value = String(slideFit.layout.splitColumns);
+    elements.rowsPerBlock.value = String(slideFit.layout.rowsPerBlock);
+    elements.density.value = String(DENSITY_REVERSE[slideFit.density]);
+    elements.fontSize.value = String(slideFit.fontSize);
+  }
+
+  // 5. レイアウト変換（スライド単位のページ分割を含む）
+  const pages = paginate(data, options.layout);
 
-  // 4. レンダリング
-  currentHtml = renderTable(data, options.style);
-  currentPlainText = renderPlainText(data);
+  // 6. レンダリング
+  currentTables = pages;
+  currentPages = pages.map(page => ({
+    html: renderTable(page, options.style, options.pasteTarget),
+    plainText: renderPlainText(page, options.style),
+    markdown: renderMarkdown(page, options.style),
+  }));
+  currentHtml = currentPages.map(page => page.html).join('<br>');
+  currentPlainText = currentPages.map(page => page.plainText).join('\n\n');
 
   // プレビュー表示
-  elements.preview.innerHTML = currentHtml || '<p class="placeholder-text">データを入力するとプレビューが表示されます</p>';
+  elements.preview.innerHTML = renderPreviewPages(currentPages)
+    || '<p class="placeholder-text">データを入力するとプレビューが表示されます</p>';
   elements.preview.className = `preview-area density-${options.style.density}`;
+  updateCopyButtonLabel();
 
   // 設定を自動保存
-  saveData(inputText, options);
+  saveData(inputText, options, richInput?.html);
 
   // 件数・分割情報を更新（元の行数を使用）
-  updateStatsDisplay(originalRowCount, options.layout.splitColumns);
+  updateStatsDisplay(originalRowCount, options.layout, overflowingSplits, slideFit);
+}
+
+/**
+ * 列を選ぶオプション（自動結合・グループ化）を描画（列の構成が変わったときのみ作り直す）
+ */
+function renderColumnOptions(data: TableData): void {
+  const choices = getColumnSources(data).map((source, col) => ({
+    source,
+    label: data.headers[col] || `${source + 1}列目`,
+  }));
+  const key = JSON.stringify(choices);
+  if (elements.autoMergeColumns.dataset.columns === key) return;
+  elements.autoMergeColumns.dataset.columns = key;
+  columnChoices = choices;
+  renderRuleLists();
+
+  const noneOption = new Option('なし', '');
+  elements.groupBy.replaceChildren(noneOption, ...choices.map(choice => new Option(choice.label, String(choice.source))));
+  elements.groupBy.value = String(groupByColumn ?? '');
+
+  elements.autoMergeColumns.replaceChildren(...choices.map(choice => {
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.value = String(choice.source);
+    checkbox.checked = autoMergeColumns.includes(choice.source);
+
+    const item = document.createElement('label');
+    item.append(checkbox, choice.label);
+    return item;
+  }));
+}
+
+/**
+ * プレビュー用HTMLを生成（複数ページの場合はページ見出しとコピーボタンを付与）
+ */
+function renderPreviewPages(pages: RenderedPage[]): string {
+  if (pages.length <= 1) {
+    return pages[0]?.html || '';
+  }
+
+  return pages.map((page, index) => `
+    <div class="preview-page">
+      <div class="preview-page-header">
+        <span>ページ ${index + 1} / ${pages.length}</span>
+        <button type="button" class="page-copy-button" data-page="${index}">ページ${index + 1}をコピー</button>
+      </div>
+      ${page.html}
+    </div>
+  `).join('');
+}
+
+/** ページ数に応じてコピーボタンの表記を切り替え */
+function updateCopyButtonLabel(): void {
+  elements.copyButtonLabel.textContent = currentPages.length > 1 ? '全ページをコピー' : 'コピー';
+}
+
+/**
+ * コピー用のPNG画像を生成する関数を返す（設定が無効なら undefined）
+ * 画像を書き込むときだけ生成し、ClipboardItem にはPromiseのまま渡してユーザー操作の直後に書き込みを開始する
+ */
+function buildCopyImage(tables: TableData[]): (() => Promise<Blob>) | undefined {
+  const options = getOptions();
+  if (!options.image.copyImage) return undefined;
+
+  return () => renderPng(tables, options.style, options.image).then(blob => {
+    if (!blob) throw new Error('No image to copy');
+    return blob;
+  });
+}
+
+/**
+ * コピーする内容を組み立て（RTF・PNG画像はコピーする表から生成）
+ */
+function buildCopyContent(html: string, plainText: string, tables: TableData[]): ClipboardContent {
+  return {
+    html,
+    plainText,
+    rtf: renderRtf(tables, getOptions().style),
+    image: buildCopyImage(tables),
+  };
+}
+
+/**
+ * 書き込めた形式をトースト用に表記（例: （HTML・テキスト・RTF））
+ */
+function formatFlavors(flavors: ClipboardFlavor[]): string {
+  return `（${flavors.map(flavor => FLAVOR_LABELS[flavor]).join('・')}）`;
 }
 
 /**
@@ -185,9 +623,31 @@ function debounce<T extends (...args: unknown[]) => void>(
 const debouncedUpdate = debounce(updatePreview, 100);
 
 /**
- * 分割情報を表示
+ * 表を含むHTMLの貼り付けを処理（入力欄にはタブ区切りテキストとして展開する）
+ */
+function handleRichPaste(e: ClipboardEvent): void {
+  const html = e.clipboardData?.getData('text/html');
+  if (!html || !/<table[\s>]/i.test(html)) return;
+
+  const data = parseHtmlInput(html, true);
+  if (!data) return;
+
+  e.preventDefault();
+  const text = renderPlainText(data);
+  elements.dataInput.value = text;
+  richInput = { html, text };
+  updatePreview();
+}
+
+/**
+ * 分割情報を表示（スライドからはみ出す分割・推奨の分割に印を付ける）
  */
-function updateStatsDisplay(itemCount: number, currentSplit: number): void {
+function updateStatsDisplay(
+  itemCount: number,
+  layout: LayoutOptions,
+  overflowingSplits: Set<number>,
+  slideFit: SlideFit | null
+): void {
   // データ入力セクションの件数表示
   if (itemCount === 0) {
     elements.inputItemCount.classList.add('hidden');
@@ -195,17 +655,38 @@ function updateStatsDisplay(itemCount: number, currentSplit: number): void {
   }
 
   elements.inputItemCount.classList.remove('hidden');
-  elements.inputItemCount.textContent = `${itemCount} 件`;
+  const currentPageCount = getPageCount(itemCount, layout);
+  elements.inputItemCount.textContent = currentPageCount > 1
+    ? `${itemCount} 件 / ${currentPageCount} ページ`
+    : `${itemCount} 件`;
 
   // 分割オプションを生成（1〜10分割）
-  const maxSplit = 10;
+  const isFixedRows = layout.fillOrder === 'fixed-rows';
   let html = '';
 
-  for (let split = 1; split <= maxSplit; split++) {
-    const rows = Math.ceil(itemCount / split);
-    const cols = split;
-    const isActive = split === currentSplit;
-    const activeClass = isActive ? 'active' : '';
+  for (const { value, layout: candidate } of getSplitCandidates(itemCount, layout)) {
+    // ページ分割時は1ページ分の配置を表示
+    const pageCount = getPageCount(itemCount, candidate);
+    const pageItemCount = Math.ceil(itemCount / pageCount);
+    const blocks = getBlockRowIndexes(pageItemCount, getPageLayout(candidate).layout);
+    const rows = Math.max(...blocks.map(indexes => indexes.length));
+    const cols = blocks.length;
+    const isActive = isFixedRows
+      ? candidate.rowsPerBlock === layout.rowsPerBlock
+      : candidate.splitColumns === layout.splitColumns;
+    const isOverflowing = overflowingSplits.has(value);
+    const isRecommended = slideFit?.value === value;
+    const classes = [
+      isActive ? 'active' : '',
+      isOverflowing ? 'overflow' : '',
+      isRecommended ? 'recommended' : '',
+    ].filter(Boolean).join(' ');
+    const pageLabel = pageCount > 1 ? `（${pageCount}ページ）` : '';
+    const fitLabel = (isOverflowing ? '\nスライドからはみ出します' : '')
+      + (isRecommended && slideFit
+        ? `\n推奨（密度: ${DENSITY_LABELS[slideFit.density]}、文字サイズ: ${slideFit.fontSize}px）`
+        : '');
+    const title = (isFixedRows ? `1ブロック${value}行` : `${value}分割`) + pageLabel + fitLabel;
 
     // アスペクト比を表す長方形を生成（最大幅36px, 高さ36pxでスケール）
     const maxSize = 36;
@@ -220,7 +701,7 @@ function updateStatsDisplay(itemCount: number, currentSplit: number): void {
     }
 
     html += `
-      <div class="split-option ${activeClass}" data-split="${split}" title="${split}分割">
+      <div class="split-option ${classes}" data-split="${value}" title="${title}">
         <div class="split-grid">
           <span class="grid-spacer"></span>
           <span class="dim-label dim-width">${cols}</span>
@@ -239,13 +720,488 @@ function updateStatsDisplay(itemCount: number, currentSplit: number): void {
       const target = e.currentTarget as HTMLElement;
       const splitValue = target.getAttribute('data-split');
       if (splitValue) {
-        elements.splitColumns.value = splitValue;
+        // 分割を手動で選んだら自動調整をやめる
+        if (elements.fitToSlide.checked) {
+          elements.fitToSlide.checked = false;
+          updateFitControls();
+        }
+        if (isFixedRows) {
+          elements.rowsPerBlock.value = splitValue;
+        } else {
+          elements.splitColumns.value = splitValue;
+        }
         updatePreview();
       }
     });
   });
 }
 
+/**
+ * 列の設定一覧を描画（列の構成・表示状態が変わったときのみ作り直し、表示名の入力中は保つ）
+ */
+function renderColumnList(): void {
+  const key = JSON.stringify(columnSettings.map(({ index, header, visible }) => [index, header, visible]));
+  if (elements.columnList.dataset.columns === key) return;
+  elements.columnList.dataset.columns = key;
+
+  elements.columnList.replaceChildren(...columnSettings.map((setting, position) => {
+    const handle = document.createElement('span');
+    handle.className = 'column-drag-handle';
+    handle.draggable = true;
+    handle.title = 'ドラッグで並べ替え';
+    handle.textContent = '⋮⋮';
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.dataset.field = 'visible';
+    checkbox.title = '表示する';
+    checkbox.checked = setting.visible;
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'column-label-input';
+    input.dataset.field = 'label';
+    input.placeholder = setting.header || `${setting.index + 1}列目`;
+    input.value = setting.label;
+
+    const maxWidth = document.createElement('input');
+    maxWidth.type = 'number';
+    maxWidth.className = 'column-width-input';
+    maxWidth.dataset.field = 'maxWidth';
+    maxWidth.min = '0';
+    maxWidth.max = '2000';
+    maxWidth.step = '10';
+    maxWidth.placeholder = '最大幅';
+    maxWidth.title = '列の最大幅（px、空欄は全体の設定）';
+    maxWidth.value = columnMaxWidths[String(setting.index)] ? String(columnMaxWidths[String(setting.index)]) : '';
+
+    const item = document.createElement('li');
+    item.className = 'column-item';
+    item.classList.toggle('column-hidden', !setting.visible);
+    item.dataset.position = String(position);
+    item.append(handle, checkbox, input, maxWidth);
+    return item;
+  }));
+}
+
+/**
+ * 列の設定一覧の操作（表示切替・表示名・ドラッグ＆ドロップでの並べ替え）を処理
+ */
+function setupColumnList(): void {
+  const list = elements.columnList;
+  const getPosition = (target: HTMLElement) =>
+    parseInt(target.closest<HTMLElement>('.column-item')?.dataset.position ?? '', 10);
+  const clearDragState = () => {
+    list.querySelectorAll('.dragging, .drag-over').forEach(item => item.classList.remove('dragging', 'drag-over'));
+  };
+  let dragPosition: number | null = null;
+
+  list.addEventListener('change', (e) => {
+    const target = e.target as HTMLInputElement;
+    const setting = columnSettings[getPosition(target)];
+    if (target.dataset.field !== 'visible' || !setting) return;
+    setting.visible = target.checked;
+    updatePreview();
+  });
+
+  list.addEventListener('input', (e) => {
+    const target = e.target as HTMLInputElement;
+    const setting = columnSettings[getPosition(target)];
+    if (!setting) return;
+    if (target.dataset.field === 'label') {
+      setting.label = target.value.trim();
+    } else if (target.dataset.field === 'maxWidth') {
+      const width = parseInt(target.value, 10);
+      if (width > 0 && width <= 2000) {
+        columnMaxWidths[String(setting.index)] = width;
+      } else {
+        delete columnMaxWidths[String(setting.index)];
+      }
+    } else {
+      return;
+    }
+    debouncedUpdate();
+  });
+
+  list.addEventListener('dragstart', (e) => {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('.column-item');
+    if (!item || !e.dataTransfer) return;
+    dragPosition = getPosition(item);
+    item.classList.add('dragging');
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', String(dragPosition));
+    e.dataTransfer.setDragImage(item, 0, 0);
+  });
+
+  list.addEventListener('dragover', (e) => {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('.column-item');
+    if (dragPosition === null || !item) return;
+    e.preventDefault();
+    list.querySelectorAll('.drag-over').forEach(other => other.classList.remove('drag-over'));
+    item.classList.add('drag-over');
+  });
+
+  list.addEventListener('drop', (e) => {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('.column-item');
+    if (dragPosition === null || !item) return;
+    e.preventDefault();
+
+    // ドロップ先の列の位置へ移動
+    const [moved] = columnSettings.splice(dragPosition, 1);
+    columnSettings.splice(getPosition(item), 0, moved);
+    dragPosition = null;
+    clearDragState();
+    renderColumnList();
+    updatePreview();
+  });
+
+  list.addEventListener('dragend', () => {
+    dragPosition = null;
+    clearDragState();
+  });
+}
+
+/**
+ * 列選択のセレクトボックスを生成（現在のデータに無い列を選んでいても選択を保つ）
+ */
+function createColumnSelect(selected: number): HTMLSelectElement {
+  const choices = columnChoices.some(choice => choice.source === selected)
+    ? columnChoices
+    : [...columnChoices, { source: selected, label: `${selected + 1}列目` }];
+
+  const select = document.createElement('select');
+  select.dataset.field = 'column';
+  select.append(...choices.map(choice => new Option(choice.label, String(choice.source))));
+  select.value = String(selected);
+  return select;
+}
+
+/**
+ * 表示名の一覧からセレクトボックスを生成
+ */
+function createLabelSelect(labels: Record<string, string>, selected: string, field: string): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.dataset.field = field;
+  select.append(...Object.entries(labels).map(([value, label]) => new Option(label, value)));
+  select.value = selected;
+  return select;
+}
+
+/**
+ * 一覧（並べ替え・絞り込み・数値書式・条件付き書式・ハイライト）の1行分（末尾に削除ボタン）を生成
+ */
+function createRuleRow(index: number, controls: HTMLElement[]): HTMLDivElement {
+  const removeButton = document.createElement('button');
+  removeButton.type = 'button';
+  removeButton.className = 'rule-remove-button';
+  removeButton.dataset.action = 'remove';
+  removeButton.title = '削除';
+  removeButton.textContent = '×';
+
+  const row = document.createElement('div');
+  row.className = 'rule-row';
+  row.dataset.index = String(index);
+  row.append(...controls, removeButton);
+  return row;
+}
+
+/**
+ * 並べ替え・絞り込み・数値書式・条件付き書式・ハイライトの一覧を描画
+ */
+function renderRuleLists(): void {
+  elements.sortKeys.replaceChildren(...sortKeys.map((key, index) => createRuleRow(index, [
+    createColumnSelect(key.column),
+    createLabelSelect(SORT_DIRECTION_LABELS, key.direction, 'direction'),
+  ])));
+
+  elements.filterRules.replaceChildren(...filterRules.map((rule, index) => createRuleRow(index, [
+    createColumnSelect(rule.column),
+    createLabelSelect(FILTER_OPERATOR_LABELS, rule.operator, 'operator'),
+    createRuleInput('value', rule.value, rule.operator === 'top' ? '件数' : '値'),
+  ])));
+
+  elements.numberFormats.replaceChildren(...numberFormats.map((format, index) => {
+    const decimals = document.createElement('input');
+    decimals.type = 'number';
+    decimals.min = '0';
+    decimals.max = '20';
+    decimals.className = 'rule-value';
+    decimals.dataset.field = 'decimals';
+    decimals.value = format.decimals === null ? '' : String(format.decimals);
+    decimals.placeholder = '小数桁';
+    decimals.title = '小数桁数（空欄は入力のまま）';
+
+    return createRuleRow(index, [
+      createColumnSelect(format.column),
+      decimals,
+      createLabelSelect(NUMBER_UNIT_LABELS, format.unit, 'unit'),
+      createLabelSelect(NUMBER_SYMBOL_LABELS, format.symbol, 'symbol'),
+      createLabelSelect(NEGATIVE_STYLE_LABELS, format.negative, 'negative'),
+    ]);
+  }));
+
+  elements.conditionalRules.replaceChildren(...conditionalRules.map((rule, index) => {
+    const valueInputs = [createRuleInput('value', rule.value, rule.operator === 'regex' ? 'パターン' : '値')];
+    if (rule.operator === 'top' || rule.operator === 'bottom') {
+      valueInputs[0].placeholder = '件数';
+    }
+    if (rule.operator === 'between') {
+      valueInputs[0].placeholder = '下限';
+      valueInputs.push(createRuleInput('value2', rule.value2, '上限'));
+    }
+
+    const bold = document.createElement('input');
+    bold.type = 'checkbox';
+    bold.dataset.field = 'bold';
+    bold.checked = rule.bold;
+    const boldLabel = document.createElement('label');
+    boldLabel.className = 'rule-check';
+    boldLabel.append(bold, '太字');
+
+    return createRuleRow(index, [
+      createColumnSelect(rule.column),
+      createLabelSelect(CONDITION_OPERATOR_LABELS, rule.operator, 'operator'),
+      ...valueInputs,
+      boldLabel,
+      createLabelSelect(CONDITION_TEXT_COLORS, rule.color, 'color'),
+      createLabelSelect(CONDITION_BACKGROUND_COLORS, rule.backgroundColor, 'backgroundColor'),
+    ]);
+  }));
+
+  elements.colorScales.replaceChildren(...colorScales.map((scale, index) => createRuleRow(index, [
+    createColumnSelect(scale.column),
+    createLabelSelect(COLOR_SCALE_PRESETS, scale.colors.join(','), 'colors'),
+  ])));
+
+  elements.dataBars.replaceChildren(...dataBars.map((bar, index) => createRuleRow(index, [
+    createColumnSelect(bar.column),
+    createLabelSelect(DATA_BAR_COLORS, bar.color, 'color'),
+  ])));
+
+  elements.highlightGroups.replaceChildren(...highlightGroups.map((group, index) => {
+    const words = document.createElement('textarea');
+    words.className = 'highlight-input';
+    words.rows = 2;
+    words.dataset.field = 'words';
+    words.value = group.words.join(', ');
+    words.placeholder = 'カンマまたは改行区切りで入力...';
+
+    // 色はプリセットのボタンとカスタムのカラーピッカー
+    const presets = document.createElement('div');
+    presets.className = 'color-presets';
+    presets.append(...(Object.keys(HIGHLIGHT_PRESET_LABELS) as HighlightPreset[]).map(preset => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = preset === 'custom' ? 'color-btn custom-btn' : 'color-btn';
+      button.classList.toggle('active', preset === group.preset);
+      button.dataset.color = preset;
+      button.title = HIGHLIGHT_PRESET_LABELS[preset];
+      if (preset === 'custom') {
+        button.textContent = '⋯';
+      } else {
+        button.style.background = getHighlightColor({ preset, customColor: group.customColor });
+      }
+      return button;
+    }));
+    const customColor = document.createElement('input');
+    customColor.type = 'color';
+    customColor.className = 'color-picker';
+    customColor.classList.toggle('hidden', group.preset !== 'custom');
+    customColor.dataset.field = 'customColor';
+    customColor.value = group.customColor;
+    const colorOptions = document.createElement('div');
+    colorOptions.className = 'highlight-color-options';
+    colorOptions.append(presets, customColor);
+
+    const caseSensitive = document.createElement('input');
+    caseSensitive.type = 'checkbox';
+    caseSensitive.dataset.field = 'caseSensitive';
+    caseSensitive.checked = group.caseSensitive;
+    const caseLabel = document.createElement('label');
+    caseLabel.className = 'rule-check';
+    caseLabel.append(caseSensitive, 'Aa');
+    caseLabel.title = '大文字・小文字を区別';
+
+    return createRuleRow(index, [
+      words,
+      colorOptions,
+      createLabelSelect(HIGHLIGHT_MATCH_LABELS, group.matchMode, 'matchMode'),
+      createLabelSelect(HIGHLIGHT_SCOPE_LABELS, group.scope, 'scope'),
+      caseLabel,
+    ]);
+  }));
+}
+
+/**
+ * 一覧の値の入力欄を生成
+ */
+function createRuleInput(field: string, value: string, placeholder: string): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'rule-value';
+  input.dataset.field = field;
+  input.value = value;
+  input.placeholder = placeholder;
+  return input;
+}
+
+/**
+ * 一覧の入力値を項目の値に変換（列は数値、小数桁数は空欄なら null、カラースケールの色・ハイライト単語は配列）
+ */
+function parseRuleField(field: string, value: string): string | number | string[] | null {
+  if (field === 'colors') {
+    return value.split(',');
+  }
+  if (field === 'words') {
+    return parseHighlightWords(value);
+  }
+  if (field === 'column') {
+    return parseInt(value, 10);
+  }
+  if (field === 'decimals') {
+    const decimals = parseInt(value, 10);
+    return Number.isInteger(decimals) ? Math.min(20, Math.max(0, decimals)) : null;
+  }
+  return value;
+}
+
+/**
+ * 一覧（並べ替え・絞り込み・数値書式・条件付き書式・ハイライト）の編集・削除を処理
+ */
+function setupRuleList(container: HTMLElement, getRules: () => RuleItem[]): void {
+  const getIndex = (target: HTMLElement) =>
+    parseInt(target.closest<HTMLElement>('.rule-row')?.dataset.index ?? '', 10);
+
+  const updateRule = (target: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement): boolean => {
+    const rule = getRules()[getIndex(target)];
+    const field = target.dataset.field;
+    if (!rule || !field) return false;
+    const value = target instanceof HTMLInputElement && target.type === 'checkbox'
+      ? target.checked
+      : parseRuleField(field, target.value);
+    Object.assign(rule, { [field]: value });
+    return true;
+  };
+
+  container.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.dataset.action !== 'remove') return;
+    getRules().splice(getIndex(target), 1);
+    renderRuleLists();
+    updatePreview();
+  });
+
+  // 値の入力はデバウンス、選択の変更は即時反映
+  container.addEventListener('input', (e) => {
+    const target = e.target as HTMLInputElement | HTMLTextAreaElement;
+    if ((target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') && updateRule(target)) {
+      debouncedUpdate();
+    }
+  });
+  container.addEventListener('change', (e) => {
+    const target = e.target as HTMLSelectElement;
+    if (target.tagName === 'SELECT' && updateRule(target)) {
+      renderRuleLists();
+      updatePreview();
+    }
+  });
+}
+
+/**
+ * グループ化の有無に応じて関連オプションの表示を切り替え
+ */
+function updateGroupControls(): void {
+  const isGrouped = groupByColumn !== null;
+  elements.groupSubtotalsRow.classList.toggle('hidden', !isGrouped);
+  elements.restartNumberingRow.classList.toggle('hidden', !isGrouped);
+}
+
+/**
+ * 集計行の有無に応じて表示位置の選択を切り替え
+ */
+function updateSummaryControls(): void {
+  elements.footerPlacementRow.classList.toggle('hidden', elements.summary.value === '');
+}
+
+/** 配置順に応じて分割数スライダーと行数入力の表示を切り替え */
+function updateFillOrderControls(fillOrder: FillOrder): void {
+  const isFixedRows = fillOrder === 'fixed-rows';
+  elements.rowsPerBlockRow.classList.toggle('hidden', !isFixedRows);
+  // 行数固定でページ分割する場合は、分割数を1スライドのブロック数として使う
+  const isPaginated = parseInt(elements.maxRowsPerSlide.value, 10) > 0;
+  elements.splitColumns.disabled = (isFixedRows && !isPaginated) || elements.fitToSlide.checked;
+}
+
+/**
+ * スライドに収める自動調整の間は、分割数・密度・文字サイズを手動で変更できないようにする
+ */
+function updateFitControls(): void {
+  const isFitting = elements.fitToSlide.checked;
+  elements.rowsPerBlock.disabled = isFitting;
+  elements.density.disabled = isFitting;
+  elements.fontSize.disabled = isFitting;
+  updateFillOrderControls((getSegmentValue(elements.fillOrder) as FillOrder) || 'down');
+}
+
+/**
+ * スライドサイズが「指定」のときだけ幅・高さの入力を表示
+ */
+function updateSlideAreaControls(): void {
+  elements.slideSizeRow.classList.toggle('hidden', getSegmentValue(elements.slidePreset) !== 'custom');
+}
+
+/**
+ * スライドの領域の長さを単位に合わせた表記にする（px は整数、cm は小数第2位まで）
+ */
+function formatSlideLength(value: number, unit: SlideUnit): string {
+  return unit === 'px' ? String(Math.round(value)) : String(Math.round(value * 100) / 100);
+}
+
+/**
+ * テーマのセグメントコントロールにカスタムテーマのボタンを並べ、指定のテーマを選択
+ */
+function renderThemeOptions(selected: string): void {
+  elements.theme.querySelectorAll('button[data-custom]').forEach(button => button.remove());
+  for (const theme of customThemes) {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.dataset.value = theme.name;
+    button.dataset.custom = '';
+    button.textContent = theme.name;
+    elements.theme.appendChild(button);
+  }
+  setSegmentValue(elements.theme, isBuiltinTheme(selected) || customThemes.some(theme => theme.name === selected)
+    ? selected
+    : 'standard-blue');
+}
+
+/**
+ * 選択中のテーマの内容をテーマ編集欄に表示（組み込みテーマは名前を空欄にする）
+ */
+function fillThemeEditor(): void {
+  const name = getSegmentValue(elements.theme);
+  const theme: Record<string, string | number> = {
+    ...resolveTheme({ ...getOptions().style, theme: name }),
+    name: isBuiltinTheme(name) ? '' : name,
+  };
+  elements.themeEditor.querySelectorAll<HTMLInputElement>('input[data-field]').forEach(input => {
+    input.value = String(theme[input.dataset.field!] ?? '');
+  });
+  elements.deleteTheme.disabled = isBuiltinTheme(name);
+}
+
+/**
+ * テーマ編集欄の内容を読み取る（未検証の入力値。isValidCustomThemes で確かめてから使う）
+ */
+function readThemeEditor(): Record<string, string | number> {
+  const values: Record<string, string | number> = {};
+  elements.themeEditor.querySelectorAll<HTMLInputElement>('input[data-field]').forEach(input => {
+    values[input.dataset.field!] = input.type === 'number' ? Number(input.value) : input.value.trim();
+  });
+  values.fontFamily = normalizeFontFamily(String(values.fontFamily ?? ''));
+  return values;
+}
+
 /** ハイライト単語をパース（カンマ、セミコロン、改行、和文句読点に対応） */
 function parseHighlightWords(input: string): string[] {
   return input
@@ -261,6 +1217,9 @@ function setupEventListeners(): void {
   // テキスト入力（デバウンス付き）
   elements.dataInput.addEventListener('input', debouncedUpdate);
 
+  // 表のHTML貼り付け（Excel / Googleスプレッドシート等）
+  elements.dataInput.addEventListener('paste', handleRichPaste);
+
   // 分割数スライダー
   elements.splitColumns.addEventListener('input', updatePreview);
 
@@ -269,15 +1228,186 @@ function setupEventListeners(): void {
 
   // その他のオプション（即時更新）
   elements.headerOption.addEventListener('change', updatePreview);
+  elements.transpose.addEventListener('change', updatePreview);
   elements.addNumbers.addEventListener('change', updatePreview);
   elements.formatNumbers.addEventListener('change', updatePreview);
+  elements.dateFormat.addEventListener('change', updatePreview);
+  elements.dateWeekday.addEventListener('change', updatePreview);
   elements.zebra.addEventListener('change', updatePreview);
+  elements.keepSourceFormatting.addEventListener('change', updatePreview);
+
+  // 列の設定
+  setupColumnList();
+  elements.resetColumns.addEventListener('click', () => {
+    columnSettings = [];
+    columnMaxWidths = {};
+    // 列の並びが変わらなくても入力欄を描画し直す
+    delete elements.columnList.dataset.columns;
+    updatePreview();
+  });
+
+  // 並べ替え・絞り込み
+  elements.addSortKey.addEventListener('click', () => {
+    sortKeys.push({ column: 0, direction: 'asc' });
+    renderRuleLists();
+    updatePreview();
+  });
+  elements.addFilterRule.addEventListener('click', () => {
+    filterRules.push({ column: 0, operator: 'contains', value: '' });
+    renderRuleLists();
+    updatePreview();
+  });
+  setupRuleList(elements.sortKeys, () => sortKeys);
+  setupRuleList(elements.filterRules, () => filterRules);
+
+  // 列ごとの数値書式
+  elements.addNumberFormat.addEventListener('click', () => {
+    numberFormats.push({ column: 0, decimals: null, unit: 'none', symbol: 'keep', negative: 'keep' });
+    renderRuleLists();
+    updatePreview();
+  });
+  setupRuleList(elements.numberFormats, () => numberFormats);
+
+  // 条件付き書式
+  elements.addConditionalRule.addEventListener('click', () => {
+    conditionalRules.push({
+      column: 0, operator: 'greater', value: '', value2: '', bold: false, color: '', backgroundColor: '#FFC7CE',
+    });
+    renderRuleLists();
+    updatePreview();
+  });
+  elements.addColorScale.addEventListener('click', () => {
+    colorScales.push({ column: 0, colors: Object.keys(COLOR_SCALE_PRESETS)[0].split(',') });
+    renderRuleLists();
+    updatePreview();
+  });
+  elements.addDataBar.addEventListener('click', () => {
+    dataBars.push({ column: 0, color: Object.keys(DATA_BAR_COLORS)[0] });
+    renderRuleLists();
+    updatePreview();
+  });
+  setupRuleList(elements.conditionalRules, () => conditionalRules);
+  setupRuleList(elements.colorScales, () => colorScales);
+  setupRuleList(elements.dataBars, () => dataBars);
+
+  // グループ化
+  elements.groupBy.addEventListener('change', () => {
+    groupByColumn = elements.groupBy.value === '' ? null : parseInt(elements.groupBy.value, 10);
+    updateGroupControls();
+    updatePreview();
+  });
+  elements.groupSubtotals.addEventListener('change', updatePreview);
+  elements.restartNumbering.addEventListener('change', updatePreview);
+
+  // 集計行
+  elements.summary.addEventListener('change', () => {
+    updateSummaryControls();
+    updatePreview();
+  });
+  elements.footerPlacement.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'BUTTON') {
+      setSegmentValue(elements.footerPlacement, target.getAttribute('data-value') || 'last');
+      updatePreview();
+    }
+  });
+
+  // 自動結合の列選択
+  elements.autoMergeColumns.addEventListener('change', () => {
+    autoMergeColumns = Array.from(elements.autoMergeColumns.querySelectorAll<HTMLInputElement>('input:checked'))
+      .map(checkbox => parseInt(checkbox.value, 10));
+    updatePreview();
+  });
 
   // セグメントコントロール(テーマ)
   elements.theme.addEventListener('click', (e) => {
     const target = e.target as HTMLElement;
     if (target.tagName === 'BUTTON') {
       setSegmentValue(elements.theme, target.getAttribute('data-value') || '');
+      fillThemeEditor();
+      updatePreview();
+    }
+  });
+
+  // カスタムテーマの保存（同名のテーマは上書き）
+  elements.saveTheme.addEventListener('click', () => {
+    const values = readThemeEditor();
+    const name = String(values.name ?? '');
+    if (!name) {
+      showToast('テーマ名を入力してください');
+      return;
+    }
+    if (isBuiltinTheme(name)) {
+      showToast('組み込みテーマと同じ名前は使えません');
+      return;
+    }
+    const themes = [values];
+    if (!isValidCustomThemes(themes)) {
+      showToast('テーマの設定が正しくありません');
+      return;
+    }
+    const [theme] = themes;
+    customThemes = mergeThemes(customThemes, [theme]);
+    renderThemeOptions(theme.name);
+    fillThemeEditor();
+    updatePreview();
+    showToast(`テーマ「${theme.name}」を保存しました`);
+  });
+
+  // カスタムテーマの削除
+  elements.deleteTheme.addEventListener('click', () => {
+    const name = getSegmentValue(elements.theme);
+    if (isBuiltinTheme(name)) return;
+    customThemes = customThemes.filter(theme => theme.name !== name);
+    renderThemeOptions('standard-blue');
+    fillThemeEditor();
+    updatePreview();
+    showToast(`テーマ「${name}」を削除しました`);
+  });
+
+  // カスタムテーマの書き出し（JSON）
+  elements.exportTheme.addEventListener('click', () => {
+    if (customThemes.length === 0) {
+      showToast('書き出すカスタムテーマがありません');
+      return;
+    }
+    downloadBlob(new Blob([exportThemes(customThemes)], { type: 'application/json' }), 'themes.json');
+  });
+
+  // カスタムテーマ・PowerPointのテーマの読み込み（同名のテーマは置き換え）
+  elements.importTheme.addEventListener('click', () => {
+    elements.themeFile.click();
+  });
+  elements.themeFile.addEventListener('change', async () => {
+    const file = elements.themeFile.files?.[0];
+    elements.themeFile.value = '';
+    if (!file) return;
+
+    // JSON以外はPowerPointのテーマファイル（.pptx / .potx / .thmx）として配色を取り込む
+    let themes: CustomTheme[] | null = null;
+    try {
+      themes = /\.json$/i.test(file.name)
+        ? parseThemes(await file.text())
+        : await importPowerPointTheme(new Uint8Array(await file.arrayBuffer()));
+    } catch (error) {
+      console.error('Theme import failed:', error);
+    }
+    if (!themes) {
+      showToast('テーマを読み込めませんでした');
+      return;
+    }
+    customThemes = mergeThemes(customThemes, themes);
+    renderThemeOptions(themes[0].name);
+    fillThemeEditor();
+    updatePreview();
+    showToast(`${themes.length}件のテーマを読み込みました`);
+  });
+
+  // セグメントコントロール(区切り文字)
+  elements.delimiter.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'BUTTON') {
+      setSegmentValue(elements.delimiter, target.getAttribute('data-value') || 'auto');
       updatePreview();
     }
   });
@@ -291,28 +1421,90 @@ function setupEventListeners(): void {
     }
   });
 
-  // ハイライト単語入力（デバウンス付き）
-  elements.highlightWords.addEventListener('input', debouncedUpdate);
-
-  // ハイライト色プリセット
-  elements.highlightPresets.addEventListener('click', (e) => {
+  // セグメントコントロール(配置順)
+  elements.fillOrder.addEventListener('click', (e) => {
     const target = e.target as HTMLElement;
     if (target.tagName === 'BUTTON') {
-      const color = target.getAttribute('data-color') || 'yellow';
-      setColorSegmentValue(elements.highlightPresets, color);
-      
-      // customの場合はカラーピッカーを表示
-      if (color === 'custom') {
-        elements.highlightCustomColor.classList.remove('hidden');
-      } else {
-        elements.highlightCustomColor.classList.add('hidden');
-      }
+      const fillOrder = target.getAttribute('data-value') || 'down';
+      setSegmentValue(elements.fillOrder, fillOrder);
+      updateFillOrderControls(fillOrder as FillOrder);
       updatePreview();
     }
   });
 
-  // カスタムカラーピッカー
-  elements.highlightCustomColor.addEventListener('input', updatePreview);
+  // 1ブロックの行数
+  elements.rowsPerBlock.addEventListener('input', debouncedUpdate);
+
+  // 1スライドの最大行数
+  elements.maxRowsPerSlide.addEventListener('input', () => {
+    updateFillOrderControls(getOptions().layout.fillOrder);
+    debouncedUpdate();
+  });
+
+  // スライドに収める（自動調整）
+  elements.fitToSlide.addEventListener('change', () => {
+    updateFitControls();
+    updatePreview();
+  });
+
+  // スライドサイズ（指定に切り替えたら、それまでのサイズを幅・高さの初期値にする）
+  elements.slidePreset.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName !== 'BUTTON') return;
+    const previous = getSegmentValue(elements.slidePreset) as SlidePreset;
+    const preset = (target.getAttribute('data-value') || '16:9') as SlidePreset;
+    if (preset === 'custom' && previous !== 'custom') {
+      const unit = getSegmentValue(elements.slideUnit) as SlideUnit;
+      const size = SLIDE_PRESETS[previous];
+      const scale = unit === 'cm' ? 1 / PX_PER_CM : 1;
+      elements.slideWidth.value = formatSlideLength(size.width * scale, unit);
+      elements.slideHeight.value = formatSlideLength(size.height * scale, unit);
+    }
+    setSegmentValue(elements.slidePreset, preset);
+    updateSlideAreaControls();
+    updatePreview();
+  });
+
+  // スライドの領域の単位（入力済みの長さを換算する）
+  elements.slideUnit.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName !== 'BUTTON') return;
+    const unit = (target.getAttribute('data-value') || 'cm') as SlideUnit;
+    if (unit === getSegmentValue(elements.slideUnit)) return;
+    const scale = unit === 'cm' ? 1 / PX_PER_CM : PX_PER_CM;
+    [elements.slideWidth, elements.slideHeight, elements.slideMargin].forEach(input => {
+      input.value = formatSlideLength((parseFloat(input.value) || 0) * scale, unit);
+    });
+    setSegmentValue(elements.slideUnit, unit);
+    updatePreview();
+  });
+
+  // スライドの幅・高さ・余白
+  [elements.slideWidth, elements.slideHeight, elements.slideMargin].forEach(input => {
+    input.addEventListener('input', debouncedUpdate);
+  });
+
+  // 文字サイズ
+  elements.fontSize.addEventListener('input', debouncedUpdate);
+  elements.maxColumnWidth.addEventListener('input', debouncedUpdate);
+
+  // ハイライト
+  elements.addHighlightGroup.addEventListener('click', () => {
+    highlightGroups.push({
+      words: [], preset: 'yellow', customColor: '#FFFF99', matchMode: 'exact', caseSensitive: false, scope: 'cell',
+    });
+    renderRuleLists();
+    updatePreview();
+  });
+  elements.highlightGroups.addEventListener('click', (e) => {
+    const button = (e.target as HTMLElement).closest<HTMLElement>('button[data-color]');
+    const index = parseInt(button?.closest<HTMLElement>('.rule-row')?.dataset.index ?? '', 10);
+    if (!button || !highlightGroups[index]) return;
+    highlightGroups[index].preset = button.dataset.color as HighlightPreset;
+    renderRuleLists();
+    updatePreview();
+  });
+  setupRuleList(elements.highlightGroups, () => highlightGroups);
 
   // 分割情報トグル
   elements.toggleSplitInfo.addEventListener('click', () => {
@@ -326,7 +1518,7 @@ function setupEventListeners(): void {
     updatePreview();
   });
 
-  // コピーボタン
+  // コピーボタン（複数ページの場合は全ページ）
   elements.copyButton.addEventListener('click', async () => {
     if (!currentHtml) {
       showToast('コピーするデータがありません');
@@ -334,8 +1526,136 @@ function setupEventListeners(): void {
     }
 
     try {
-      await copyToClipboard(currentHtml, currentPlainText);
-      showToast('コピーしました！');
+      const flavors = await copyToClipboard(buildCopyContent(currentHtml, currentPlainText, currentTables));
+      const message = currentPages.length > 1 ? `全${currentPages.length}ページをコピーしました！` : 'コピーしました！';
+      showToast(`${message}${formatFlavors(flavors)}`);
+    } catch (error) {
+      console.error('Copy failed:', error);
+      showToast('コピーに失敗しました');
+    }
+  });
+
+  // PPTXダウンロード
+  elements.pptxButton.addEventListener('click', () => {
+    if (!currentHtml) {
+      showToast('出力するデータがありません');
+      return;
+    }
+
+    try {
+      const blob = createPptx(currentTables, getOptions().style);
+      downloadBlob(blob, 'table.pptx');
+      showToast('PPTXをダウンロードしました！');
+    } catch (error) {
+      console.error('PPTX export failed:', error);
+      showToast('PPTXの生成に失敗しました');
+    }
+  });
+
+  // Markdownとしてコピー
+  elements.markdownButton.addEventListener('click', async () => {
+    if (!currentHtml) {
+      showToast('コピーするデータがありません');
+      return;
+    }
+
+    try {
+      await copyTextToClipboard(currentPages.map(page => page.markdown).join('\n\n'));
+      showToast('Markdownとしてコピーしました！');
+    } catch (error) {
+      console.error('Copy failed:', error);
+      showToast('コピーに失敗しました');
+    }
+  });
+
+  // SVGダウンロード
+  elements.svgButton.addEventListener('click', () => {
+    const options = getOptions();
+    const image = renderSvg(currentTables, options.style, options.image);
+    if (!image) {
+      showToast('出力するデータがありません');
+      return;
+    }
+    downloadBlob(new Blob([image.svg], { type: 'image/svg+xml' }), 'table.svg');
+    showToast('SVGをダウンロードしました！');
+  });
+
+  // PNGダウンロード
+  elements.pngButton.addEventListener('click', async () => {
+    const options = getOptions();
+    try {
+      const blob = await renderPng(currentTables, options.style, options.image);
+      if (!blob) {
+        showToast('出力するデータがありません');
+        return;
+      }
+      downloadBlob(blob, 'table.png');
+      showToast('PNGをダウンロードしました！');
+    } catch (error) {
+      console.error('PNG export failed:', error);
+      showToast('PNGの生成に失敗しました');
+    }
+  });
+
+  // セグメントコントロール(PNGの倍率)
+  elements.imageScale.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'BUTTON') {
+      setSegmentValue(elements.imageScale, target.getAttribute('data-value') || '2');
+      saveData(elements.dataInput.value, getOptions(), richInput?.html);
+    }
+  });
+
+  // 画像出力オプション（プレビューには影響しないため保存のみ）
+  elements.imageTransparent.addEventListener('change', () => saveData(elements.dataInput.value, getOptions(), richInput?.html));
+  elements.copyImage.addEventListener('change', () => saveData(elements.dataInput.value, getOptions(), richInput?.html));
+
+  // 貼り付け先（コピーするHTMLの書き出し方が変わる）
+  elements.pasteTarget.addEventListener('change', updatePreview);
+
+  // ヘッダークリックで列の配置を切り替え（自動 → 左 → 中央 → 右）
+  elements.preview.addEventListener('click', (e) => {
+    const header = (e.target as HTMLElement).closest('th');
+    if (!header) return;
+
+    const table = header.closest('table');
+    const tableIndex = Array.from(elements.preview.querySelectorAll('table')).indexOf(table as HTMLTableElement);
+    const tableData = currentTables[tableIndex];
+    if (!tableData) return;
+
+    // 結合セルがあると cellIndex は列位置と一致しないため、左側のセルの colSpan を合計する
+    const colIndex = Array.from((header.parentElement as HTMLTableRowElement).cells)
+      .slice(0, header.cellIndex)
+      .reduce((sum, cell) => sum + cell.colSpan, 0);
+    const source = getColumnSources(tableData)[colIndex];
+    if (source === undefined || tableData.separatorColumns?.includes(colIndex)) return;
+
+    const key = String(source);
+    const current: ColumnAlignment = columnAlignments[key] ?? 'auto';
+    const next = ALIGNMENT_CYCLE[(ALIGNMENT_CYCLE.indexOf(current) + 1) % ALIGNMENT_CYCLE.length];
+    if (next === 'auto') {
+      delete columnAlignments[key];
+    } else {
+      columnAlignments[key] = next;
+    }
+
+    updatePreview();
+    const label = tableData.headers[colIndex] || `${colIndex + 1}列目`;
+    showToast(`「${label}」の配置: ${ALIGNMENT_LABELS[next]}`);
+  });
+
+  // ページ単位のコピーボタン
+  elements.preview.addEventListener('click', async (e) => {
+    const target = (e.target as HTMLElement).closest('.page-copy-button');
+    if (!target) return;
+
+    const pageIndex = parseInt(target.getAttribute('data-page') || '', 10);
+    const page = currentPages[pageIndex];
+    if (!page) return;
+
+    try {
+      const flavors = await copyToClipboard(buildCopyContent(page.html, page.plainText, [currentTables[pageIndex]]));
+      showToast(`ページ${pageIndex + 1}をコピーしました！${formatFlavors(flavors)}`);
     } catch (error) {
       console.error('Copy failed:', error);
       showToast('コピーに失敗しました');
@@ -352,27 +1672,74 @@ function loadStoredData(): void {
 
   // 入力を復元
   elements.dataInput.value = stored.input;
+  richInput = stored.inputHtml ? { html: stored.inputHtml, text: stored.input } : null;
 
   // オプションを復元
   elements.splitColumns.value = String(stored.options.layout.splitColumns);
   setSegmentValue(elements.separatorType, stored.options.layout.separatorType);
+  setSegmentValue(elements.fillOrder, stored.options.layout.fillOrder);
+  elements.rowsPerBlock.value = String(stored.options.layout.rowsPerBlock);
+  elements.maxRowsPerSlide.value = String(stored.options.layout.maxRowsPerSlide);
+  elements.fitToSlide.checked = stored.options.layout.fitToSlide;
+  setSegmentValue(elements.slidePreset, stored.options.layout.slideArea.preset);
+  setSegmentValue(elements.slideUnit, stored.options.layout.slideArea.unit);
+  elements.slideWidth.value = String(stored.options.layout.slideArea.width);
+  elements.slideHeight.value = String(stored.options.layout.slideArea.height);
+  elements.slideMargin.value = String(stored.options.layout.slideArea.margin);
+  updateSlideAreaControls();
+  updateFitControls();
   elements.headerOption.checked = stored.options.hasHeader;
+  setSegmentValue(elements.delimiter, stored.options.delimiter);
+  elements.pasteTarget.value = stored.options.pasteTarget;
+  elements.transpose.checked = stored.options.format.transpose;
   elements.addNumbers.checked = stored.options.format.addNumbers;
   elements.formatNumbers.checked = stored.options.format.formatNumbers;
-  setSegmentValue(elements.theme, stored.options.style.theme);
+  elements.dateFormat.value = stored.options.format.dateFormat;
+  elements.dateWeekday.checked = stored.options.format.dateWeekday;
+  groupByColumn = stored.options.format.groupBy;
+
+  // 列の設定を復元
+  columnSettings = stored.options.columns.map(setting => ({ ...setting }));
+
+  // 並べ替え・絞り込みを復元
+  sortKeys = stored.options.sort.map(key => ({ ...key }));
+  filterRules = stored.options.filters.map(rule => ({ ...rule }));
+  numberFormats = stored.options.format.numberFormats.map(format => ({ ...format }));
+  conditionalRules = stored.options.style.conditionalRules.map(rule => ({ ...rule }));
+  colorScales = stored.options.style.colorScales.map(scale => ({ ...scale, colors: [...scale.colors] }));
+  dataBars = stored.options.style.dataBars.map(bar => ({ ...bar }));
+  renderRuleLists();
+  elements.groupSubtotals.checked = stored.options.format.groupSubtotals;
+  elements.restartNumbering.checked = stored.options.format.restartNumbering;
+  elements.summary.value = stored.options.format.summary ?? '';
+  setSegmentValue(elements.footerPlacement, stored.options.layout.footerPlacement);
+  updateSummaryControls();
+  updateGroupControls();
+  customThemes = stored.options.style.customThemes.map(theme => ({ ...theme }));
+  renderThemeOptions(stored.options.style.theme);
   elements.zebra.checked = stored.options.style.zebra;
+  elements.keepSourceFormatting.checked = stored.options.style.keepSourceFormatting;
   elements.density.value = String(DENSITY_REVERSE[stored.options.style.density] || 3);
+  elements.fontSize.value = String(stored.options.style.fontSize);
+
+  // 画像出力設定を復元
+  setSegmentValue(elements.imageScale, String(stored.options.image.scale));
+  elements.imageTransparent.checked = stored.options.image.transparent;
+  elements.copyImage.checked = stored.options.image.copyImage;
+
+  // 列の配置を復元
+  columnAlignments = { ...stored.options.style.columnAlignments };
+  columnMaxWidths = { ...stored.options.style.columnMaxWidths };
+  elements.maxColumnWidth.value = String(stored.options.style.maxColumnWidth);
+  autoMergeColumns = [...stored.options.style.autoMergeColumns];
 
   // ハイライト設定を復元
-  elements.highlightWords.value = stored.options.style.highlightWords.join(', ');
-  setColorSegmentValue(elements.highlightPresets, stored.options.style.highlightPreset);
-  elements.highlightCustomColor.value = stored.options.style.highlightCustomColor;
-  if (stored.options.style.highlightPreset === 'custom') {
-    elements.highlightCustomColor.classList.remove('hidden');
-  }
+  highlightGroups = stored.options.style.highlightGroups.map(group => ({ ...group, words: [...group.words] }));
+  renderRuleLists();
 }
 
 // 初期化
 loadStoredData();
+fillThemeEditor();
 setupEventListeners();
 updatePreview();
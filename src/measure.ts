@@ -0,0 +1,184 @@
+/**
+ * 文字幅の計測 - 出力フォントで文字列の幅を測る
+ * ブラウザでは canvas の measureText を使い、canvas を使えない環境では同梱の字幅表で概算する
+ */
+
+/** canvas で計測するときの文字サイズ（px、大きめにして丸め誤差を抑える） */
+const MEASURE_FONT_SIZE = 100;
+
+/** 計測結果のキャッシュの上限（超えたら破棄） */
+const MAX_CACHE_SIZE = 10000;
+
+/**
+ * 欧文プロポーショナルフォントの字幅（em、U+0020〜U+007E。Arial / Helvetica の字幅）
+ */
+const SANS_WIDTHS = [
+  0.278, 0.278, 0.355, 0.556, 0.556, 0.889, 0.667, 0.191, 0.333, 0.333, 0.389, 0.584, 0.278, 0.333, 0.278, 0.278,
+  0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.278, 0.278, 0.584, 0.584, 0.584, 0.556,
+  1.015, 0.667, 0.667, 0.722, 0.722, 0.667, 0.611, 0.778, 0.722, 0.278, 0.5, 0.667, 0.556, 0.833, 0.722, 0.778,
+  0.667, 0.778, 0.722, 0.667, 0.611, 0.722, 0.667, 0.944, 0.667, 0.667, 0.611, 0.278, 0.278, 0.278, 0.469, 0.556,
+  0.333, 0.556, 0.556, 0.5, 0.556, 0.556, 0.278, 0.556, 0.556, 0.222, 0.222, 0.5, 0.222, 0.833, 0.556, 0.556,
+  0.556, 0.556, 0.333, 0.5, 0.278, 0.556, 0.5, 0.722, 0.5, 0.5, 0.5, 0.334, 0.26, 0.334, 0.584,
+];
+
+/** 太字の欧文プロポーショナルフォントの字幅（em、U+0020〜U+007E。Arial Bold の字幅） */
+const SANS_BOLD_WIDTHS = [
+  0.278, 0.333, 0.474, 0.556, 0.556, 0.889, 0.722, 0.238, 0.333, 0.333, 0.389, 0.584, 0.278, 0.333, 0.278, 0.278,
+  0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.556, 0.333, 0.333, 0.584, 0.584, 0.584, 0.611,
+  0.975, 0.722, 0.722, 0.722, 0.722, 0.667, 0.611, 0.778, 0.722, 0.278, 0.556, 0.722, 0.611, 0.833, 0.722, 0.778,
+  0.667, 0.778, 0.722, 0.667, 0.611, 0.722, 0.667, 0.944, 0.667, 0.667, 0.611, 0.333, 0.278, 0.333, 0.584, 0.556,
+  0.333, 0.556, 0.611, 0.556, 0.611, 0.556, 0.333, 0.611, 0.611, 0.278, 0.278, 0.556, 0.278, 0.889, 0.611, 0.611,
+  0.611, 0.611, 0.389, 0.556, 0.333, 0.611, 0.556, 0.778, 0.556, 0.556, 0.5, 0.389, 0.28, 0.389, 0.584,
+];
+
+/** 等幅フォントの半角の字幅（em） */
+const MONOSPACE_WIDTH = 0.6;
+
+/** 全角文字（和文・全角記号・ハングルなど）の字幅（em） */
+const FULL_WIDTH = 1;
+
+/** 半角カタカナ・半角記号の字幅（em） */
+const HALF_WIDTH = 0.5;
+
+/** 絵文字の字幅（em） */
+const EMOJI_WIDTH = 1.2;
+
+/** 字幅表にない文字（ギリシャ文字・キリル文字など）の字幅（em） */
+const DEFAULT_WIDTH = 0.6;
+
+/** 等幅フォントとみなすフォント名 */
+const MONOSPACE_PATTERN = /monospace|mono\b|consolas|courier|menlo/i;
+
+/** 幅を持たない文字（結合文字・異体字セレクタ・ゼロ幅文字・肌の色の修飾子） */
+const ZERO_WIDTH_PATTERN = /[\p{M}\u200B-\u200F\u2060\uFE00-\uFE0F\u{E0100}-\u{E01EF}\u{1F3FB}-\u{1F3FF}]/u;
+
+/** 絵文字 */
+const EMOJI_PATTERN = /\p{Extended_Pictographic}|[\u{1F1E6}-\u{1F1FF}]/u;
+
+/** 半角カタカナ・半角記号 */
+const HALF_WIDTH_PATTERN = /[\uFF61-\uFF9F\uFFE8-\uFFEE]/;
+
+/** 全角文字（CJK・かな・全角英数記号・ハングルなど） */
+const FULL_WIDTH_PATTERN = /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA960-\uA97F\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6\u{20000}-\u{3FFFD}]/u;
+
+/** 計測に使う canvas（未作成は undefined、使えない環境は null） */
+let measureContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined;
+
+/** 計測結果のキャッシュ（キーはフォント指定と文字列） */
+const widthCache = new Map<string, number>();
+
+/**
+ * 文字列の幅（px）を出力フォントで計測
+ * セル内改行がある場合は最も長い行の幅
+ */
+export function measureTextWidth(text: string, fontFamily: string, fontSize: number, bold = false): number {
+  if (text === '') return 0;
+  if (text.includes('\n')) {
+    return Math.max(...text.split('\n').map(line => measureTextWidth(line, fontFamily, fontSize, bold)));
+  }
+
+  const key = `${bold ? 'bold ' : ''}${fontFamily}\u0000${text}`;
+  let width = widthCache.get(key);
+  if (width === undefined) {
+    width = measureWithCanvas(text, fontFamily, bold) ?? measureWithTable(text, fontFamily, bold);
+    if (widthCache.size >= MAX_CACHE_SIZE) {
+      widthCache.clear();
+    }
+    widthCache.set(key, width);
+  }
+  return width * fontSize;
+}
+
+/**
+ * canvas で計測（em、canvas を使えない環境では null）
+ */
+function measureWithCanvas(text: string, fontFamily: string, bold: boolean): number | null {
+  const context = getMeasureContext();
+  if (!context) return null;
+
+  context.font = `${bold ? 'bold ' : ''}${MEASURE_FONT_SIZE}px ${fontFamily}`;
+  return context.measureText(text).width / MEASURE_FONT_SIZE;
+}
+
+/**
+ * 計測用の canvas を用意（初回のみ作成）
+ */
+function getMeasureContext(): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+  if (measureContext === undefined) {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      measureContext = new OffscreenCanvas(1, 1).getContext('2d');
+    } else if (typeof document !== 'undefined') {
+      measureContext = document.createElement('canvas').getContext('2d');
+    } else {
+      measureContext = null;
+    }
+  }
+  return measureContext;
+}
+
+/**
+ * 字幅表で概算（em）
+ * 絵文字のZWJシーケンス・国旗（地域指示子の組）は1文字として数える
+ */
+function measureWithTable(text: string, fontFamily: string, bold: boolean): number {
+  const isMonospace = MONOSPACE_PATTERN.test(getPrimaryFont(fontFamily));
+  const asciiWidths = bold ? SANS_BOLD_WIDTHS : SANS_WIDTHS;
+
+  let width = 0;
+  let joinNext = false;
+  let pendingFlag = false;
+  for (const char of text) {
+    // ZWJ の直後の文字は直前の絵文字と合成される
+    if (char === '\u200D') {
+      joinNext = true;
+      continue;
+    }
+    if (joinNext) {
+      joinNext = false;
+      continue;
+    }
+    if (ZERO_WIDTH_PATTERN.test(char)) continue;
+
+    const code = char.codePointAt(0)!;
+    if (code >= 0x1F1E6 && code <= 0x1F1FF) {
+      // 地域指示子は2文字で1つの国旗
+      if (pendingFlag) {
+        pendingFlag = false;
+        continue;
+      }
+      pendingFlag = true;
+      width += EMOJI_WIDTH;
+      continue;
+    }
+    pendingFlag = false;
+
+    if (code >= 0x20 && code <= 0x7E) {
+      width += isMonospace ? MONOSPACE_WIDTH : asciiWidths[code - 0x20];
+    } else if (EMOJI_PATTERN.test(char)) {
+      width += EMOJI_WIDTH;
+    } else if (HALF_WIDTH_PATTERN.test(char)) {
+      width += HALF_WIDTH;
+    } else if (FULL_WIDTH_PATTERN.test(char)) {
+      width += FULL_WIDTH;
+    } else {
+      width += measureLatinLetter(char, isMonospace ? null : asciiWidths);
+    }
+  }
+  return width;
+}
+
+/**
+ * アクセント付きの欧文字（é・Ä など）は元の文字の字幅を使う
+ */
+function measureLatinLetter(char: string, asciiWidths: number[] | null): number {
+  if (!asciiWidths) return MONOSPACE_WIDTH;
+  const base = char.normalize('NFD').codePointAt(0)!;
+  return base >= 0x20 && base <= 0x7E ? asciiWidths[base - 0x20] : DEFAULT_WIDTH;
+}
+
+/**
+ * CSSのfont-familyから先頭のフォント名を取り出す
+ */
+export function getPrimaryFont(fontFamily: string): string {
+  return (fontFamily.split(',')[0] ?? '').trim().replace(/^['"]|['"]$/g, '');
+}
@@ -0,0 +1,171 @@
+/**
+ * 数値の認識と書式 - 全角数字・3桁区切り・%・通貨記号・▲/括弧の負数を認識し、列ごとの書式で整形する
+ */
+
+import type { NumberFormat, NumberUnit } from './types';
+
+/** 解析済みの数値 */
+export interface ParsedNumber {
+  /** 数値（% 付きは100で割った値） */
+  value: number;
+  /** 入力の小数桁数 */
+  decimals: number;
+  /** 通貨記号（半角に正規化） */
+  prefix: string;
+  /** % または 円（半角に正規化） */
+  suffix: string;
+  /** 入力の負数の表記 */
+  negativeNotation: 'minus' | 'triangle' | 'parentheses';
+}
+
+/** 書式の指定がない列に使う書式（3桁区切りのみ、入力の桁数・記号を保つ） */
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = {
+  decimals: null,
+  unit: 'none',
+  symbol: 'keep',
+  negative: 'keep',
+};
+
+/** 単位ごとの除数と表記 */
+const UNITS: Record<Exclude<NumberUnit, 'none'>, { divisor: number; label: string }> = {
+  thousand: { divisor: 1e3, label: '千' },
+  'ten-thousand': { divisor: 1e4, label: '万' },
+  'hundred-million': { divisor: 1e8, label: '億' },
+};
+
+/** 記号ごとの表記 */
+const SYMBOLS = {
+  yen: { prefix: '¥', suffix: '' },
+  dollar: { prefix: '$', suffix: '' },
+  euro: { prefix: '€', suffix: '' },
+  percent: { prefix: '', suffix: '%' },
+  none: { prefix: '', suffix: '' },
+};
+
+/** toLocaleString で指定できる小数桁数の上限 */
+const MAX_FRACTION_DIGITS = 20;
+
+/** 数値として認識する書式（符号・通貨記号・3桁区切り・小数・%/円） */
+const NUMBER_PATTERN = /^([-+]?)([¥$€]?)([-+]?)(\d{1,3}(?:,\d{3})+|\d*)(?:\.(\d+))?(%|円)?$/;
+
+/**
+ * 全角の数字・記号を半角に正規化
+ */
+function normalizeWidth(text: string): string {
+  return text
+    .replace(/[０-９．，－＋％（）＄]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xFEE0))
+    .replace(/[￥]/g, '¥')
+    .replace(/[−‐]/g, '-');
+}
+
+/**
+ * セルの値を数値として解析（数値でなければ null）
+ */
+export function parseNumericValue(text: string): ParsedNumber | null {
+  let normalized = normalizeWidth(text.trim());
+  let negativeNotation: ParsedNumber['negativeNotation'] = 'minus';
+  let isNegative = false;
+
+  if (/^\(.+\)$/.test(normalized)) {
+    negativeNotation = 'parentheses';
+    isNegative = true;
+    normalized = normalized.slice(1, -1).trim();
+  } else if (/^[▲△]/.test(normalized)) {
+    negativeNotation = 'triangle';
+    isNegative = true;
+    normalized = normalized.slice(1).trim();
+  }
+
+  const match = NUMBER_PATTERN.exec(normalized);
+  if (!match) return null;
+
+  const [, leadingSign, prefix, innerSign, integerPart, fractionPart = '', suffix = ''] = match;
+  if (integerPart === '' && fractionPart === '') return null;
+  if (leadingSign && innerSign) return null;
+  if (isNegative && (leadingSign || innerSign)) return null;
+
+  const sign = leadingSign || innerSign;
+  const magnitude = parseFloat(`${integerPart.replace(/,/g, '') || '0'}.${fractionPart || '0'}`);
+  const value = (sign === '-' || isNegative ? -magnitude : magnitude) / (suffix === '%' ? 100 : 1);
+
+  return {
+    value,
+    decimals: fractionPart.length,
+    prefix,
+    suffix,
+    negativeNotation,
+  };
+}
+
+/**
+ * 値が数値として認識できるか
+ */
+export function isNumericValue(text: string): boolean {
+  return parseNumericValue(text) !== null;
+}
+
+/**
+ * 値を数値に変換（数値でなければ NaN）
+ */
+export function toNumber(text: string): number {
+  return parseNumericValue(text)?.value ?? NaN;
+}
+
+/**
+ * 解析済みの数値を書式に従って整形
+ * negative は赤字で表示すべき負数かどうか
+ */
+export function formatParsedNumber(
+  parsed: ParsedNumber,
+  format: NumberFormat = DEFAULT_NUMBER_FORMAT
+): { text: string; negative: boolean } {
+  const affixes = format.symbol === 'keep'
+    ? { prefix: parsed.prefix, suffix: parsed.suffix }
+    : SYMBOLS[format.symbol];
+  const unit = format.unit === 'none' ? null : UNITS[format.unit];
+
+  // % を付ける場合は100倍、単位を付ける場合は単位で割る
+  let scaled = affixes.suffix === '%' ? parsed.value * 100 : parsed.value;
+  if (unit) {
+    scaled /= unit.divisor;
+  }
+
+  // % の付け外しで小数点が2桁ずれる分を入力の桁数に反映する
+  const percentShift = (parsed.suffix === '%' ? 2 : 0) - (affixes.suffix === '%' ? 2 : 0);
+  const inputDecimals = Math.max(0, parsed.decimals + percentShift);
+  const decimals = Math.min(MAX_FRACTION_DIGITS, format.decimals ?? (unit ? 0 : inputDecimals));
+  const rounded = Number(scaled.toFixed(decimals));
+  const isNegative = rounded < 0;
+
+  const digits = Math.abs(rounded).toLocaleString('ja-JP', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+  const body = `${affixes.prefix}${digits}${unit?.label ?? ''}${affixes.suffix}`;
+  if (!isNegative) {
+    return { text: body, negative: false };
+  }
+
+  const notation = format.negative === 'keep' ? parsed.negativeNotation : format.negative;
+  switch (notation) {
+    case 'triangle':
+      return { text: `▲${body}`, negative: false };
+    case 'parentheses':
+      return { text: `(${body})`, negative: false };
+    case 'red':
+      return { text: `-${body}`, negative: true };
+    default:
+      return { text: `-${body}`, negative: false };
+  }
+}
+
+/**
+ * セルの値を書式に従って整形（数値でなければそのまま）
+ */
+export function formatNumericText(
+  text: string,
+  format: NumberFormat = DEFAULT_NUMBER_FORMAT
+): { text: string; negative: boolean } {
+  const parsed = parseNumericValue(text);
+  return parsed ? formatParsedNumber(parsed, format) : { text, negative: false };
+}
@@ -1,24 +1,39 @@
 /**
- * データパーサー - タブ/カンマ区切りの自動判別
+ * データパーサー - 区切り文字（タブ/カンマ/セミコロン/パイプ/空白）とMarkdown表の自動判別、HTML表の取り込み
  */
 
-import type { TableData } from './types';
+import type { TableData, Delimiter, Alignment, CellFormat, CellMeta } from './types';
+
+/** 区切り文字の候補（自動判別時の優先順） */
+const DELIMITER_CHARS: Record<Exclude<Delimiter, 'auto' | 'whitespace'>, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+};
+
+/** 区切り文字の自動判別に使う先頭行数 */
+const DETECTION_SAMPLE_LINES = 20;
 
 /**
  * テキストデータをパースしてTableDataに変換
  */
-export function parseInput(text: string, hasHeader: boolean): TableData {
-  const trimmed = text.trim();
-  if (!trimmed) {
+export function parseInput(text: string, hasHeader: boolean, delimiter: Delimiter = 'auto'): TableData {
+  // BOMを除去
+  const source = text.replace(/^\uFEFF/, '');
+  if (!source.trim()) {
     return { headers: [], rows: [], hasHeader };
   }
 
-  const lines = trimmed.split(/\r?\n/);
-  const delimiter = detectDelimiter(trimmed);
-  
-  const allRows = lines
-    .map(line => parseLine(line, delimiter))
-    .filter(row => row.length > 0);
+  // Markdownの表（2行目が配置行）
+  if ((delimiter === 'auto' || delimiter === 'pipe') && isMarkdownTable(source)) {
+    return parseMarkdownTable(source, hasHeader);
+  }
+
+  const resolved = delimiter === 'auto' ? detectDelimiter(source) : delimiter;
+  const allRows = resolved === 'whitespace'
+    ? parseWhitespaceAligned(source)
+    : parseDelimited(source, DELIMITER_CHARS[resolved]);
 
   if (allRows.length === 0) {
     return { headers: [], rows: [], hasHeader };
@@ -41,53 +56,428 @@ export function parseInput(text: string, hasHeader: boolean): TableData {
   };
 }
 
+/** Markdownの配置行（例: | :--- | :---: | ---: |） */
+const MARKDOWN_ALIGNMENT_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
 /**
- * 区切り文字を自動判別
- * タブの出現回数がカンマより多ければタブ区切り、それ以外はカンマ
+ * Markdownの表（GitHub/Notion形式のパイプテーブル）かどうか判定
  */
-function detectDelimiter(text: string): string {
-  const tabCount = (text.match(/\t/g) || []).length;
-  const commaCount = (text.match(/,/g) || []).length;
-  return tabCount >= commaCount ? '\t' : ',';
+function isMarkdownTable(text: string): boolean {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '');
+  return lines.length >= 2
+    && lines[0].includes('|')
+    && lines[1].includes('-')
+    && MARKDOWN_ALIGNMENT_ROW.test(lines[1])
+    && (lines[1].includes('|') || splitMarkdownRow(lines[0]).length === 1);
+}
+
+/**
+ * Markdownの表をパース
+ * 配置行（:---: など）は列の配置として sourceAlignments に格納する
+ */
+function parseMarkdownTable(text: string, hasHeader: boolean): TableData {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '');
+  const headerRow = splitMarkdownRow(lines[0]);
+  const alignmentRow = splitMarkdownRow(lines[1]);
+  const bodyRows = lines.slice(2).map(splitMarkdownRow);
+
+  const sourceAlignments = alignmentRow.map((cell): Alignment | null => {
+    const starts = cell.startsWith(':');
+    const ends = cell.endsWith(':');
+    if (starts && ends) return 'center';
+    if (ends) return 'right';
+    if (starts) return 'left';
+    return null;
+  });
+
+  if (hasHeader) {
+    return { headers: headerRow, rows: bodyRows, hasHeader: true, sourceAlignments };
+  }
+
+  // ヘッダーなしの場合、見出し行もデータ行として扱う
+  const allRows = [headerRow, ...bodyRows];
+  const columnCount = Math.max(...allRows.map(r => r.length));
+  return {
+    headers: Array(columnCount).fill(''),
+    rows: allRows,
+    hasHeader: false,
+    sourceAlignments,
+  };
 }
 
 /**
- * 1行をパース（CSVの引用符対応）
+ * Markdownの表の1行をセルに分割
+ * 先頭・末尾のパイプを除去し、エスケープされたパイプ（\|）と <br> を復元する
  */
-function parseLine(line: string, delimiter: string): string[] {
-  const result: string[] = [];
+function splitMarkdownRow(line: string): string[] {
+  let content = line.trim();
+  if (content.startsWith('|')) content = content.slice(1);
+  if (content.endsWith('|') && !content.endsWith('\\|')) content = content.slice(0, -1);
+
+  const cells: string[] = [];
   let current = '';
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\\' && content[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (char === '|') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells.map(cell => cell.trim().replace(/<br\s*\/?>/gi, '\n'));
+}
+
+/**
+ * 区切り文字を自動判別
+ * 先頭の数行で各候補の出現回数を数え、行ごとの回数が最も揃っている候補を選ぶ
+ * どの候補も現れない場合、2つ以上の空白で桁揃えされていれば空白区切りとみなす
+ */
+export function detectDelimiter(text: string): Exclude<Delimiter, 'auto'> {
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim() !== '')
+    .slice(0, DETECTION_SAMPLE_LINES);
+
+  let best: Exclude<Delimiter, 'auto' | 'whitespace'> | null = null;
+  let bestScore = 0;
+
+  for (const [name, char] of Object.entries(DELIMITER_CHARS) as [keyof typeof DELIMITER_CHARS, string][]) {
+    const counts = lines.map(line => countOutsideQuotes(line, char));
+    const nonZero = counts.filter(count => count > 0);
+    if (nonZero.length === 0) continue;
+
+    // 最頻の出現回数に一致する行の割合（一貫性）を主、平均出現回数を従とする
+    const mode = findMode(nonZero);
+    const consistency = counts.filter(count => count === mode).length / lines.length;
+    const score = consistency * 1000 + nonZero.reduce((sum, count) => sum + count, 0) / lines.length;
+
+    // 同点なら優先順（タブ → カンマ → セミコロン → パイプ）で先の候補を採用
+    if (score > bestScore) {
+      best = name;
+      bestScore = score;
+    }
+  }
+
+  if (best) return best;
+
+  const alignedLines = lines.filter(line => /\S {2,}\S/.test(line.trim()));
+  return alignedLines.length >= lines.length / 2 ? 'whitespace' : 'comma';
+}
+
+/**
+ * 引用符の外にある文字の出現回数を数える
+ */
+function countOutsideQuotes(line: string, char: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const c of line) {
+    if (c === '"') {
+      inQuotes = !inQuotes;
+    } else if (c === char && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function findMode(values: number[]): number {
+  const frequency = new Map<number, number>();
+  for (const value of values) {
+    frequency.set(value, (frequency.get(value) || 0) + 1);
+  }
+  let mode = values[0];
+  for (const [value, count] of frequency) {
+    if (count > (frequency.get(mode) || 0)) {
+      mode = value;
+    }
+  }
+  return mode;
+}
+
+/**
+ * 区切り文字形式のテキストをパース（RFC 4180準拠）
+ * 引用符内の改行・区切り文字・エスケープされた引用符（""）に対応する
+ * 前後の空白は引用符の外側だけ取り除き、引用符で囲まれた値はそのまま保つ
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
   let inQuotes = false;
+  // 引用符で囲まれた値の長さ（引用されていないフィールドは null）
+  let quotedLength: number | null = null;
 
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    const nextChar = line[i + 1];
+  const endField = () => {
+    record.push(quotedLength === null
+      ? field.trim()
+      : field.slice(0, quotedLength) + field.slice(quotedLength).trimEnd());
+    field = '';
+    quotedLength = null;
+  };
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
 
     if (inQuotes) {
-      if (char === '"' && nextChar === '"') {
+      if (char === '"' && text[i + 1] === '"') {
         // エスケープされた引用符
-        current += '"';
+        field += '"';
         i++;
       } else if (char === '"') {
         // 引用符終了
         inQuotes = false;
+        quotedLength = field.length;
       } else {
-        current += char;
+        field += char === '\r' && text[i + 1] === '\n' ? '' : char === '\r' ? '\n' : char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      // フィールド先頭の引用符のみを引用の開始とみなす
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
       }
+      endRecord();
     } else {
-      if (char === '"') {
-        inQuotes = true;
-      } else if (char === delimiter) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0 || inQuotes) {
+    endRecord();
+  }
+
+  return trimRecords(records);
+}
+
+/**
+ * 空白で桁揃えされたテキストをパース（2つ以上の空白・タブを区切りとみなす）
+ */
+function parseWhitespaceAligned(text: string): string[][] {
+  const records = text
+    .split(/\r\n|\n|\r/)
+    .map(line => line.trim() === '' ? [''] : line.trim().split(/ {2,}|\t+/));
+  return trimRecords(records);
+}
+
+/**
+ * 先頭・末尾の空行を除去し、全行が区切り文字で終わっている場合は末尾の空列を除去
+ */
+function trimRecords(records: string[][]): string[][] {
+  const isBlank = (record: string[]) => record.every(cell => cell === '');
+
+  let start = 0;
+  let end = records.length;
+  while (start < end && isBlank(records[start])) start++;
+  while (end > start && isBlank(records[end - 1])) end--;
+  const trimmed = records.slice(start, end);
+
+  const nonBlank = trimmed.filter(record => !isBlank(record));
+  const hasTrailingDelimiter = nonBlank.length > 0
+    && nonBlank.every(record => record.length > 1 && record[record.length - 1] === '');
+  if (hasTrailingDelimiter) {
+    return trimmed.map(record => isBlank(record) ? record : record.slice(0, -1));
+  }
+
+  return trimmed;
+}
+
+/**
+ * クリップボードのHTML（Excel / Googleスプレッドシート等）から表を取り込む
+ * セルの書式（太字・斜体・文字色・背景色）と結合（rowspan/colspan）を cellMeta に保持する
+ * 表が含まれない場合は null
+ */
+export function parseHtmlInput(html: string, hasHeader: boolean): TableData | null {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const table = doc.querySelector('table');
+  if (!table) return null;
+
+  const styleRules = collectStyleRules(doc);
+  const grid: string[][] = [];
+  const meta: (CellMeta | undefined)[][] = [];
+  const tableRows = Array.from(table.rows);
+  let mergeCount = 0;
+
+  tableRows.forEach((tr, rowIndex) => {
+    grid[rowIndex] ??= [];
+    meta[rowIndex] ??= [];
+
+    let colIndex = 0;
+    for (const td of Array.from(tr.cells)) {
+      // 上の行からの rowspan で埋まっている位置を飛ばす
+      while (grid[rowIndex][colIndex] !== undefined) colIndex++;
+
+      const value = getCellText(td);
+      const format = getCellFormat(td, styleRules);
+      const rowSpan = Math.min(Math.max(1, td.rowSpan || 1), tableRows.length - rowIndex);
+      const colSpan = Math.max(1, td.colSpan || 1);
+      const mergeId = rowSpan > 1 || colSpan > 1 ? `html-${++mergeCount}` : undefined;
+      const cellMeta: CellMeta | undefined = format || mergeId ? { format, mergeId } : undefined;
+
+      // 結合範囲のすべての位置に同じ値を置き、結合グループIDで束ねる
+      for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+        grid[r] ??= [];
+        meta[r] ??= [];
+        for (let c = colIndex; c < colIndex + colSpan; c++) {
+          grid[r][c] = value;
+          meta[r][c] = cellMeta;
+        }
+      }
+      colIndex += colSpan;
+    }
+  });
+
+  // 穴（セルの無い位置）を空文字で埋める
+  const columnCount = Math.max(0, ...grid.map(row => row.length));
+  const allRows = grid.map(row => Array.from({ length: columnCount }, (_, col) => row[col] ?? ''));
+  const allMeta = meta.map(row => Array.from({ length: columnCount }, (_, col) => row[col]));
+  if (allRows.length === 0) return null;
+
+  if (hasHeader) {
+    return {
+      headers: allRows[0],
+      rows: allRows.slice(1),
+      hasHeader: true,
+      headerMeta: allMeta[0],
+      cellMeta: allMeta.slice(1),
+    };
+  }
+
+  return {
+    headers: Array(columnCount).fill(''),
+    rows: allRows,
+    hasHeader: false,
+    cellMeta: allMeta,
+  };
+}
+
+/**
+ * <style> 内のスタイルルールを収集（Excelはクラス指定で書式を出力するため）
+ */
+function collectStyleRules(doc: Document): CSSStyleRule[] {
+  const rules: CSSStyleRule[] = [];
+  doc.querySelectorAll('style').forEach(styleElement => {
+    try {
+      const sheet = new CSSStyleSheet();
+      sheet.replaceSync(styleElement.textContent || '');
+      for (const rule of Array.from(sheet.cssRules)) {
+        if (rule instanceof CSSStyleRule) {
+          rules.push(rule);
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to parse pasted stylesheet:', error);
+    }
+  });
+  return rules;
+}
+
+/**
+ * セルのテキストを取得（<br> は改行、それ以外の空白はHTMLと同様にまとめる）
+ */
+function getCellText(cell: HTMLTableCellElement): string {
+  const clone = cell.cloneNode(true) as HTMLElement;
+  const walker = clone.ownerDocument.createTreeWalker(clone, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    node.textContent = (node.textContent || '').replace(/[ \t\r\n\f]+/g, ' ');
+  }
+  clone.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+
+  return (clone.textContent || '')
+    .replace(/\u00A0/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .trim();
+}
+
+/**
+ * セルの書式を取得
+ * セル自身と、セルの文字列全体を包む子要素（<b>, <font> など）のスタイルを合成する
+ */
+function getCellFormat(cell: HTMLTableCellElement, styleRules: CSSStyleRule[]): CellFormat | undefined {
+  const text = (cell.textContent || '').trim();
+  const wrappers = Array.from(cell.querySelectorAll('*')).filter(element =>
+    text !== '' && (element.textContent || '').trim() === text
+  );
+
+  const format: CellFormat = {};
+  for (const element of [cell, ...wrappers]) {
+    const declarations = [
+      ...styleRules.filter(rule => matchesSelector(element, rule.selectorText)).map(rule => rule.style),
+      (element as HTMLElement).style,
+    ].filter((declaration): declaration is CSSStyleDeclaration => !!declaration);
+
+    const tag = element.tagName.toLowerCase();
+    if (tag === 'b' || tag === 'strong') format.bold = true;
+    if (tag === 'i' || tag === 'em') format.italic = true;
+    const fontColor = element.getAttribute('color');
+    if (fontColor) format.color = normalizeColor(fontColor) ?? format.color;
+    const bgColor = element.getAttribute('bgcolor');
+    if (bgColor) format.backgroundColor = normalizeColor(bgColor, '#FFFFFF') ?? format.backgroundColor;
+
+    for (const declaration of declarations) {
+      const weight = declaration.fontWeight;
+      if (weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 600) format.bold = true;
+      if (declaration.fontStyle === 'italic') format.italic = true;
+      if (declaration.color) format.color = normalizeColor(declaration.color) ?? format.color;
+      if (declaration.backgroundColor) {
+        format.backgroundColor = normalizeColor(declaration.backgroundColor, '#FFFFFF') ?? format.backgroundColor;
       }
     }
   }
 
-  result.push(current.trim());
-  return result;
+  // 既定色（黒文字・白背景）は書式として扱わない
+  if (format.color === '#000000') delete format.color;
+  return Object.keys(format).length > 0 ? format : undefined;
+}
+
+function matchesSelector(element: Element, selector: string): boolean {
+  try {
+    return element.matches(selector);
+  } catch {
+    return false;
+  }
+}
+
+/** 色の正規化に使うCanvas（遅延生成） */
+let colorContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * CSSの色指定を #RRGGBB に正規化
+ * 透明・半透明・解釈できない値、および ignoreColor と同じ色は undefined
+ */
+function normalizeColor(value: string, ignoreColor?: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed || trimmed === 'transparent' || trimmed === 'inherit' || trimmed === 'initial') {
+    return undefined;
+  }
+
+  colorContext ??= document.createElement('canvas').getContext('2d');
+  if (!colorContext) return undefined;
+
+  // 不正な値は無視されるため、判定用の値を先に入れておく
+  colorContext.fillStyle = '#010203';
+  colorContext.fillStyle = trimmed;
+  const normalized = String(colorContext.fillStyle).toUpperCase();
+  if (!/^#[0-9A-F]{6}$/.test(normalized)) return undefined;
+  if (normalized === '#010203' && trimmed.toUpperCase() !== '#010203') return undefined;
+  if (ignoreColor && normalized === ignoreColor) return undefined;
+  return normalized;
 }
 
 /**
@@ -113,8 +503,8 @@ export function normalizeColumns(data: TableData): TableData {
   });
 
   return {
+    ...data,
     headers: normalizedHeaders,
     rows: normalizedRows,
-    hasHeader: data.hasHeader,
   };
 }
@@ -0,0 +1,357 @@
+/**
+ * PPTX生成 - ネイティブ表（a:tbl）を含むPowerPointファイルをブラウザ内で組み立てる
+ */
+
+import type { TableData, StyleOptions, RenderCell, TableModel, TableBorder, Alignment } from './types';
+import { buildTableModel, calculateRowHeight, getModelRows, getRenderedColumnWidths } from './renderer';
+import { createZip } from './zip';
+import { escapeXml } from './xml';
+
+/** 1pxあたりのEMU（96dpi換算） */
+const EMU_PER_PX = 9525;
+
+/** スライドサイズ（16:9, EMU） */
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+
+/** 表を配置する余白（EMU） */
+const SLIDE_MARGIN = 457200;
+
+/** 既定の文字色 */
+const DEFAULT_TEXT_COLOR = '000000';
+
+/** PPTXのMIMEタイプ */
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+const NS_A = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const NS_P = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const NS_REL = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/** 配置 → a:pPr@algn */
+const ALIGNMENT_MAP: Record<Alignment, string> = {
+  left: 'l',
+  center: 'ctr',
+  right: 'r',
+};
+
+/**
+ * ページごとのテーブルから PPTX ファイルを生成（1ページ = 1スライド）
+ */
+export function createPptx(pages: TableData[], style: StyleOptions): Blob {
+  const slides = pages
+    .map(page => buildTableModel(page, style))
+    .filter((model): model is TableModel => model !== null)
+    .map(model => buildSlideXml(model));
+
+  const entries = [
+    { path: '[Content_Types].xml', data: buildContentTypesXml(slides.length) },
+    { path: '_rels/.rels', data: buildRootRelsXml() },
+    { path: 'ppt/presentation.xml', data: buildPresentationXml(slides.length) },
+    { path: 'ppt/_rels/presentation.xml.rels', data: buildPresentationRelsXml(slides.length) },
+    { path: 'ppt/slideMasters/slideMaster1.xml', data: buildSlideMasterXml() },
+    { path: 'ppt/slideMasters/_rels/slideMaster1.xml.rels', data: buildSlideMasterRelsXml() },
+    { path: 'ppt/slideLayouts/slideLayout1.xml', data: buildSlideLayoutXml() },
+    { path: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels', data: buildSlideLayoutRelsXml() },
+    { path: 'ppt/theme/theme1.xml', data: buildThemeXml() },
+    ...slides.flatMap((xml, index) => [
+      { path: `ppt/slides/slide${index + 1}.xml`, data: xml },
+      { path: `ppt/slides/_rels/slide${index + 1}.xml.rels`, data: buildSlideRelsXml() },
+    ]),
+  ];
+
+  const bytes = createZip(entries);
+  return new Blob([bytes], { type: PPTX_MIME_TYPE });
+}
+
+/**
+ * 表を1枚のスライドとして出力
+ */
+function buildSlideXml(model: TableModel): string {
+  // セルの左右の余白（marL・marR）は列幅の内側に取られるため、余白を含めた幅にする
+  const columnWidths = getRenderedColumnWidths(model).map(width => pxToEmu(width));
+  const allRows = getModelRows(model);
+  const rowHeights = allRows.map(row => pxToEmu(calculateRowHeight(row, model)));
+
+  const tableWidth = columnWidths.reduce((sum, width) => sum + width, 0);
+  const tableHeight = rowHeights.reduce((sum, height) => sum + height, 0);
+
+  const gridXml = columnWidths.map(width => `<a:gridCol w="${width}"/>`).join('');
+  const rowsXml = allRows.map((row, rowIndex) => {
+    const cellsXml = row.map((cell, colIndex) => buildCellXml(cell, row, colIndex, rowIndex, model)).join('');
+    return `<a:tr h="${rowHeights[rowIndex]}">${cellsXml}</a:tr>`;
+  }).join('');
+
+  return XML_DECLARATION
+    + `<p:sld xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}">`
+    + '<p:cSld><p:spTree>'
+    + buildGroupShapeProperties()
+    + '<p:graphicFrame>'
+    + '<p:nvGraphicFramePr><p:cNvPr id="2" name="Table 1"/>'
+    + '<p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>'
+    + `<p:xfrm><a:off x="${SLIDE_MARGIN}" y="${SLIDE_MARGIN}"/><a:ext cx="${tableWidth}" cy="${tableHeight}"/></p:xfrm>`
+    + '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table">'
+    + `<a:tbl><a:tblPr${model.header ? ' firstRow="1"' : ''}${model.footer ? ' lastRow="1"' : ''}/>`
+    + `<a:tblGrid>${gridXml}</a:tblGrid>`
+    + rowsXml
+    + '</a:tbl></a:graphicData></a:graphic></p:graphicFrame>'
+    + '</p:spTree></p:cSld>'
+    + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>'
+    + '</p:sld>';
+}
+
+/**
+ * セル（a:tc）を出力
+ */
+function buildCellXml(
+  cell: RenderCell,
+  row: RenderCell[],
+  colIndex: number,
+  rowIndex: number,
+  model: TableModel
+): string {
+  const { latin, eastAsian } = getFontFaces(model.fontFamily);
+  const fontSize = Math.round(pxToPt(model.fontSize) * 100);
+  const color = toHex(cell.color) || DEFAULT_TEXT_COLOR;
+  const runProperties = `lang="ja-JP" sz="${fontSize}"${cell.bold ? ' b="1"' : ''}${cell.italic ? ' i="1"' : ''} dirty="0"`;
+  const fontXml = `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill>`
+    + `<a:latin typeface="${escapeXml(latin)}"/><a:ea typeface="${escapeXml(eastAsian)}"/>`;
+
+  const paragraphsXml = cell.value.split('\n').map(line => {
+    const paragraphProperties = `<a:pPr algn="${ALIGNMENT_MAP[cell.alignment]}"/>`;
+    if (line === '') {
+      return `<a:p>${paragraphProperties}<a:endParaRPr ${runProperties}>${fontXml}</a:endParaRPr></a:p>`;
+    }
+    return `<a:p>${paragraphProperties}<a:r><a:rPr ${runProperties}>${fontXml}</a:rPr>`
+      + `<a:t>${escapeXml(line)}</a:t></a:r></a:p>`;
+  }).join('');
+
+  // 罫線: ブロック境界は太線、ヘッダーとデータ行の間はヘッダー下の罫線、区切り列は上下の罫線なし
+  const leftNeighbor = row[colIndex - 1];
+  const leftBorder = leftNeighbor?.isBlockBoundary ? model.boundaryBorder : model.border;
+  const rightBorder = cell.isBlockBoundary ? model.boundaryBorder : model.border;
+  const headerRows = model.header ? 1 : 0;
+  const topBorder = cell.isSeparator ? null : rowIndex === headerRows && headerRows > 0 ? model.headerBorder : model.border;
+  const bottomBorder = cell.isSeparator ? null : rowIndex === headerRows - 1 ? model.headerBorder : model.border;
+
+  const padding = model.padding;
+  const fillXml = buildFillXml(cell);
+
+  // 結合: 起点セルは gridSpan/rowSpan、結合された側は hMerge/vMerge
+  let spanAttributes = '';
+  if (cell.isCovered && cell.spanOffset) {
+    spanAttributes = (cell.spanOffset.col > 0 ? ' hMerge="1"' : '')
+      + (cell.spanOffset.row > 0 ? ' vMerge="1"' : '');
+  } else {
+    spanAttributes = (cell.colSpan > 1 ? ` gridSpan="${cell.colSpan}"` : '')
+      + (cell.rowSpan > 1 ? ` rowSpan="${cell.rowSpan}"` : '');
+  }
+
+  return `<a:tc${spanAttributes}>`
+    + `<a:txBody><a:bodyPr/><a:lstStyle/>${paragraphsXml}</a:txBody>`
+    + `<a:tcPr marL="${pxToEmu(padding.horizontal)}" marR="${pxToEmu(padding.horizontal)}"`
+    + ` marT="${pxToEmu(padding.vertical)}" marB="${pxToEmu(padding.vertical)}" anchor="ctr">`
+    + buildLineXml('a:lnL', leftBorder)
+    + buildLineXml('a:lnR', rightBorder)
+    + buildLineXml('a:lnT', topBorder)
+    + buildLineXml('a:lnB', bottomBorder)
+    + fillXml
+    + '</a:tcPr></a:tc>';
+}
+
+/**
+ * セルの塗りを出力（データバーは境界で色が切り替わる横方向のグラデーション）
+ */
+function buildFillXml(cell: RenderCell): string {
+  const background = toHex(cell.backgroundColor);
+  const barColor = toHex(cell.dataBar?.color);
+  if (cell.dataBar && barColor) {
+    const position = Math.round(cell.dataBar.ratio * 100000);
+    const stop = (pos: number, color: string | null) => color
+      ? `<a:gs pos="${pos}"><a:srgbClr val="${color}"/></a:gs>`
+      : `<a:gs pos="${pos}"><a:srgbClr val="FFFFFF"><a:alpha val="0"/></a:srgbClr></a:gs>`;
+    return '<a:gradFill rotWithShape="1"><a:gsLst>'
+      + stop(0, barColor) + stop(position, barColor) + stop(position, background) + stop(100000, background)
+      + '</a:gsLst><a:lin ang="0" scaled="0"/></a:gradFill>';
+  }
+  return background
+    ? `<a:solidFill><a:srgbClr val="${background}"/></a:solidFill>`
+    : '<a:noFill/>';
+}
+
+/**
+ * セルの罫線を出力（null・太さ0は罫線なし）
+ */
+function buildLineXml(tag: string, border: TableBorder | null): string {
+  if (!border || border.width <= 0) {
+    return `<${tag} w="0"><a:noFill/></${tag}>`;
+  }
+  return `<${tag} w="${pxToEmu(border.width)}" cap="flat" cmpd="sng" algn="ctr">`
+    + `<a:solidFill><a:srgbClr val="${toHex(border.color) || DEFAULT_TEXT_COLOR}"/></a:solidFill>`
+    + `<a:prstDash val="solid"/></${tag}>`;
+}
+
+/**
+ * CSSのfont-familyから欧文・和文フォントを取り出す
+ */
+function getFontFaces(fontFamily: string): { latin: string; eastAsian: string } {
+  const faces = fontFamily
+    .split(',')
+    .map(face => face.trim().replace(/^['"]|['"]$/g, ''))
+    .filter(face => face && !['sans-serif', 'serif', 'monospace'].includes(face));
+  const latin = faces[0] || 'Arial';
+  return { latin, eastAsian: faces[1] || latin };
+}
+
+function buildGroupShapeProperties(): string {
+  return '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>'
+    + '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/>'
+    + '<a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+}
+
+function buildContentTypesXml(slideCount: number): string {
+  const slideOverrides = Array.from({ length: slideCount }, (_, i) =>
+    `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>`
+  ).join('');
+
+  return XML_DECLARATION
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>'
+    + '<Override PartName="/ppt/slideMasters/slideMaster1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml"/>'
+    + '<Override PartName="/ppt/slideLayouts/slideLayout1.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml"/>'
+    + '<Override PartName="/ppt/theme/theme1.xml" ContentType="application/vnd.openxmlformats-officedocument.theme+xml"/>'
+    + slideOverrides
+    + '</Types>';
+}
+
+function buildRootRelsXml(): string {
+  return XML_DECLARATION
+    + `<Relationships xmlns="${NS_REL}">`
+    + `<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="ppt/presentation.xml"/>`
+    + '</Relationships>';
+}
+
+function buildPresentationXml(slideCount: number): string {
+  // rId1: スライドマスター, rId2: テーマ, rId3〜: スライド
+  const slideIds = Array.from({ length: slideCount }, (_, i) =>
+    `<p:sldId id="${256 + i}" r:id="rId${i + 3}"/>`
+  ).join('');
+
+  return XML_DECLARATION
+    + `<p:presentation xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}">`
+    + '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>'
+    + `<p:sldIdLst>${slideIds}</p:sldIdLst>`
+    + `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/>`
+    + '<p:notesSz cx="6858000" cy="9144000"/>'
+    + '</p:presentation>';
+}
+
+function buildPresentationRelsXml(slideCount: number): string {
+  const slideRels = Array.from({ length: slideCount }, (_, i) =>
+    `<Relationship Id="rId${i + 3}" Type="${REL_TYPE}/slide" Target="slides/slide${i + 1}.xml"/>`
+  ).join('');
+
+  return XML_DECLARATION
+    + `<Relationships xmlns="${NS_REL}">`
+    + `<Relationship Id="rId1" Type="${REL_TYPE}/slideMaster" Target="slideMasters/slideMaster1.xml"/>`
+    + `<Relationship Id="rId2" Type="${REL_TYPE}/theme" Target="theme/theme1.xml"/>`
+    + slideRels
+    + '</Relationships>';
+}
+
+function buildSlideMasterXml(): string {
+  return XML_DECLARATION
+    + `<p:sldMaster xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}">`
+    + '<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>'
+    + `<p:spTree>${buildGroupShapeProperties()}</p:spTree></p:cSld>`
+    + '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3"'
+    + ' accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>'
+    + '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>'
+    + '</p:sldMaster>';
+}
+
+function buildSlideMasterRelsXml(): string {
+  return XML_DECLARATION
+    + `<Relationships xmlns="${NS_REL}">`
+    + `<Relationship Id="rId1" Type="${REL_TYPE}/slideLayout" Target="../slideLayouts/slideLayout1.xml"/>`
+    + `<Relationship Id="rId2" Type="${REL_TYPE}/theme" Target="../theme/theme1.xml"/>`
+    + '</Relationships>';
+}
+
+function buildSlideLayoutXml(): string {
+  return XML_DECLARATION
+    + `<p:sldLayout xmlns:a="${NS_A}" xmlns:r="${NS_R}" xmlns:p="${NS_P}" type="blank" preserve="1">`
+    + `<p:cSld name="Blank"><p:spTree>${buildGroupShapeProperties()}</p:spTree></p:cSld>`
+    + '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>'
+    + '</p:sldLayout>';
+}
+
+function buildSlideLayoutRelsXml(): string {
+  return XML_DECLARATION
+    + `<Relationships xmlns="${NS_REL}">`
+    + `<Relationship Id="rId1" Type="${REL_TYPE}/slideMaster" Target="../slideMasters/slideMaster1.xml"/>`
+    + '</Relationships>';
+}
+
+function buildSlideRelsXml(): string {
+  return XML_DECLARATION
+    + `<Relationships xmlns="${NS_REL}">`
+    + `<Relationship Id="rId1" Type="${REL_TYPE}/slideLayout" Target="../slideLayouts/slideLayout1.xml"/>`
+    + '</Relationships>';
+}
+
+function buildThemeXml(): string {
+  const solidFill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const line = `<a:ln w="6350">${solidFill}</a:ln>`;
+  const effect = '<a:effectStyle><a:effectLst/></a:effectStyle>';
+  const fonts = '<a:latin typeface="Segoe UI"/><a:ea typeface="Yu Gothic UI"/><a:cs typeface=""/>';
+
+  return XML_DECLARATION
+    + `<a:theme xmlns:a="${NS_A}" name="FormatTableForSlides">`
+    + '<a:themeElements>'
+    + '<a:clrScheme name="Office">'
+    + '<a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1>'
+    + '<a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>'
+    + '<a:dk2><a:srgbClr val="44546A"/></a:dk2><a:lt2><a:srgbClr val="E7E6E6"/></a:lt2>'
+    + '<a:accent1><a:srgbClr val="4472C4"/></a:accent1><a:accent2><a:srgbClr val="ED7D31"/></a:accent2>'
+    + '<a:accent3><a:srgbClr val="A5A5A5"/></a:accent3><a:accent4><a:srgbClr val="FFC000"/></a:accent4>'
+    + '<a:accent5><a:srgbClr val="5B9BD5"/></a:accent5><a:accent6><a:srgbClr val="70AD47"/></a:accent6>'
+    + '<a:hlink><a:srgbClr val="0563C1"/></a:hlink><a:folHlink><a:srgbClr val="954F72"/></a:folHlink>'
+    + '</a:clrScheme>'
+    + `<a:fontScheme name="Office"><a:majorFont>${fonts}</a:majorFont><a:minorFont>${fonts}</a:minorFont></a:fontScheme>`
+    + '<a:fmtScheme name="Office">'
+    + `<a:fillStyleLst>${solidFill.repeat(3)}</a:fillStyleLst>`
+    + `<a:lnStyleLst>${line.repeat(3)}</a:lnStyleLst>`
+    + `<a:effectStyleLst>${effect.repeat(3)}</a:effectStyleLst>`
+    + `<a:bgFillStyleLst>${solidFill.repeat(3)}</a:bgFillStyleLst>`
+    + '</a:fmtScheme>'
+    + '</a:themeElements>'
+    + '<a:objectDefaults/><a:extraClrSchemeLst/>'
+    + '</a:theme>';
+}
+
+function pxToEmu(px: number): number {
+  return Math.round(px * EMU_PER_PX);
+}
+
+function pxToPt(px: number): number {
+  return px * 0.75;
+}
+
+/**
+ * CSSカラー（#RGB / #RRGGBB）を srgbClr 用の16進6桁に変換
+ * 透明・未指定・解釈できない値は null
+ */
+function toHex(color: string | undefined): string | null {
+  if (!color) return null;
+  const match = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1].length === 3
+    ? match[1].split('').map(c => c + c).join('')
+    : match[1];
+  return hex.toUpperCase();
+}
@@ -2,11 +2,18 @@
  * HTMLテーブル生成・スタイリング
  */
 
-import type { TableData, StyleOptions, ThemeColors, ThemeName, Density, Alignment, HighlightPreset } from './types';
-import { detectAlignment } from './formatter';
+import type {
+  TableData, StyleOptions, ThemeColors, ThemeName, ThemeDefinition, Density, Alignment, HighlightPreset, HighlightGroup,
+  CellPadding, RenderCell, TableModel, TableBorder, CellFormat, CellMeta, ConditionalRule, ConditionalStyle, PasteTarget,
+} from './types';
+import { detectAlignment, applyAlignmentOverrides, getColumnSources } from './formatter';
+import { getCellMeta, getRowKind } from './table';
+import { toNumber, parseNumericValue } from './numbers';
+import { measureTextWidth } from './measure';
+import { wrapText } from './wrap';
 
 /** テーマカラー定義 */
-const THEMES: Record<ThemeName, ThemeColors> = {
+export const THEMES: Record<ThemeName, ThemeColors> = {
   'standard-blue': {
     headerBg: '#4472C4',
     headerText: '#FFFFFF',
@@ -33,13 +40,71 @@ const THEMES: Record<ThemeName, ThemeColors> = {
   },
 };
 
-/** 密度ごとのパディング */
-const DENSITY_PADDING: Record<Density, string> = {
-  'extra-comfortable': '16px 20px',
-  comfortable: '12px 16px',
-  standard: '8px 12px',
-  compact: '4px 8px',
-  'extra-compact': '2px 4px',
+/** 密度ごとのパディング（px） */
+export const DENSITY_PADDING: Record<Density, CellPadding> = {
+  'extra-comfortable': { vertical: 16, horizontal: 20 },
+  comfortable: { vertical: 12, horizontal: 16 },
+  standard: { vertical: 8, horizontal: 12 },
+  compact: { vertical: 4, horizontal: 8 },
+  'extra-compact': { vertical: 2, horizontal: 4 },
+};
+
+/** 表のフォント */
+const TABLE_FONT_FAMILY = "'Segoe UI', 'Yu Gothic UI', 'Meiryo', sans-serif";
+
+/** 表のフォントサイズ（px） */
+const TABLE_FONT_SIZE = 14;
+
+/** 列幅に加える左右の余白（px） */
+const COLUMN_PADDING = 24;
+
+/** 列の最小幅（px） */
+const MIN_COLUMN_WIDTH = 40;
+
+/** 行の高さ = フォントサイズ × この倍率 × 行数 + 上下パディング */
+export const LINE_HEIGHT_RATIO = 1.2;
+
+/** 組み込みテーマ共通の罫線・フォント */
+export const DEFAULT_THEME_STYLE: Omit<ThemeDefinition, keyof ThemeColors> = {
+  borderColor: '#D0D0D0',
+  borderWidth: 1,
+  headerBorderColor: '#D0D0D0',
+  headerBorderWidth: 1,
+  fontFamily: TABLE_FONT_FAMILY,
+  fontSize: TABLE_FONT_SIZE,
+  separatorColor: '#666666',
+};
+
+/** ブロック境界の罫線の太さ（px） */
+const BOUNDARY_BORDER_WIDTH = 3;
+
+/** 赤字指定の負数の文字色 */
+const NEGATIVE_TEXT_COLOR = '#C00000';
+
+/** 区切り列の幅（px） */
+const SEPARATOR_WIDTH = 16;
+
+/** HTMLで使う長さの単位 */
+type LengthUnit = 'px' | 'pt';
+
+/** 貼り付け先ごとのHTMLの書き出し方 */
+interface PasteProfile {
+  /** 長さの単位（Office製品は pt で解釈する） */
+  unit: LengthUnit;
+  /** 列幅を <colgroup> と width 属性でも指定（min-width を無視する貼り付け先向け） */
+  widthAttributes: boolean;
+  /** 罫線・余白を table の border・cellpadding 属性でも指定（セルの余白を落とす貼り付け先向け） */
+  tableAttributes: boolean;
+  /** Excelの mso- スタイル（表示形式・セル内改行）を付ける */
+  msoStyles: boolean;
+}
+
+/** 貼り付け先ごとの書き出し方 */
+const PASTE_PROFILES: Record<PasteTarget, PasteProfile> = {
+  powerpoint: { unit: 'pt', widthAttributes: true, tableAttributes: false, msoStyles: false },
+  'google-slides': { unit: 'px', widthAttributes: true, tableAttributes: true, msoStyles: false },
+  keynote: { unit: 'px', widthAttributes: false, tableAttributes: false, msoStyles: false },
+  excel: { unit: 'pt', widthAttributes: true, tableAttributes: false, msoStyles: true },
 };
 
 /** ハイライトプリセット色 */
@@ -52,42 +117,298 @@ const HIGHLIGHT_COLORS: Record<Exclude<HighlightPreset, 'custom'>, string> = {
 };
 
 /** ハイライト色を取得 */
-function getHighlightColor(style: StyleOptions): string {
-  if (style.highlightPreset === 'custom') {
-    return style.highlightCustomColor;
+export function getHighlightColor(group: Pick<HighlightGroup, 'preset' | 'customColor'>): string {
+  if (group.preset === 'custom') {
+    return group.customColor;
   }
-  return HIGHLIGHT_COLORS[style.highlightPreset] || HIGHLIGHT_COLORS.yellow;
+  return HIGHLIGHT_COLORS[group.preset] || HIGHLIGHT_COLORS.yellow;
+}
+
+/**
+ * セルの値がハイライト単語に一致するか判定する関数を生成（正規表現の誤りは一致なしとみなす）
+ */
+function createHighlightMatcher(group: HighlightGroup): (cellValue: string) => boolean {
+  const normalize = (text: string) => group.caseSensitive ? text.trim() : text.trim().toLowerCase();
+  const words = group.words.map(normalize).filter(word => word !== '');
+
+  if (group.matchMode === 'regex') {
+    const patterns = group.words.flatMap(word => {
+      try {
+        return [new RegExp(word.trim(), group.caseSensitive ? '' : 'i')];
+      } catch {
+        return [];
+      }
+    });
+    return cellValue => patterns.some(pattern => pattern.test(cellValue.trim()));
+  }
+  if (group.matchMode === 'contains') {
+    return cellValue => words.some(word => normalize(cellValue).includes(word));
+  }
+  return cellValue => words.includes(normalize(cellValue));
+}
+
+/**
+ * ハイライトグループを評価し、背景色をセルの付加情報に記録
+ * 行・列全体のハイライトが段組み後も元の行・列に付いていくよう、分割前のデータに適用する
+ * 表示される値で判定するため、数値・日付の書式変換の後に適用する
+ * 範囲の狭いものほど優先（列 → 行 → セル）し、同じ範囲では後のグループほど優先する
+ */
+export function applyHighlights(data: TableData, groups: HighlightGroup[]): TableData {
+  const activeGroups = groups.filter(group => group.words.some(word => word.trim() !== ''));
+  if (activeGroups.length === 0 || data.rows.length === 0) {
+    return data;
+  }
+
+  const colors: (string | undefined)[][] = data.rows.map(() => []);
+  for (const scope of ['column', 'row', 'cell'] as const) {
+    for (const group of activeGroups.filter(item => item.scope === scope)) {
+      const matches = createHighlightMatcher(group);
+      const color = getHighlightColor(group);
+      data.rows.forEach((row, rowIndex) => {
+        row.forEach((value, col) => {
+          if (!matches(value)) return;
+          if (scope === 'cell') {
+            colors[rowIndex][col] = color;
+          } else if (scope === 'row') {
+            row.forEach((_, rowCol) => { colors[rowIndex][rowCol] = color; });
+          } else {
+            data.rows.forEach((_, columnRow) => { colors[columnRow][col] = color; });
+          }
+        });
+      });
+    }
+  }
+
+  const cellMeta = data.rows.map((row, rowIndex) =>
+    row.map((_, col): CellMeta | undefined => {
+      const meta = getCellMeta(data, rowIndex, col);
+      const highlight = colors[rowIndex][col];
+      return highlight ? { ...meta, highlight } : meta;
+    })
+  );
+
+  return {
+    ...data,
+    cellMeta,
+  };
 }
 
-/** セルがハイライト対象か判定（完全一致） */
-function shouldHighlight(cellValue: string, highlightWords: string[]): boolean {
-  if (highlightWords.length === 0) return false;
-  const lowerCell = cellValue.toLowerCase().trim();
-  return highlightWords.some(word => lowerCell === word.toLowerCase().trim());
+/**
+ * 条件付き書式（ルール・カラースケール・データバー）を評価し、結果をセルの付加情報に記録
+ * 分割前のデータ全体で評価するため、上位N件やスケールの範囲はブロック・ページをまたいで共通になる
+ * 書式変換で条件の判定が変わらないよう、数値・日付の書式変換より前に適用する
+ * 適用順はカラースケール → データバー → ルール（後のルールほど優先）。グループ見出し・小計行は対象外
+ */
+export function applyConditionalFormats(data: TableData, style: StyleOptions): TableData {
+  const rules = style.conditionalRules || [];
+  const colorScales = style.colorScales || [];
+  const dataBars = style.dataBars || [];
+  if (rules.length + colorScales.length + dataBars.length === 0 || data.rows.length === 0) {
+    return data;
+  }
+
+  const sources = getColumnSources(data);
+  const dataRowIndexes = data.rows
+    .map((_, rowIndex) => rowIndex)
+    .filter(rowIndex => getRowKind(data, rowIndex) === 'data');
+  const styles: (ConditionalStyle | undefined)[][] = data.rows.map(() => []);
+  const setStyle = (rowIndex: number, col: number, update: ConditionalStyle) => {
+    styles[rowIndex][col] = { ...styles[rowIndex][col], ...update };
+  };
+
+  // 列の数値（数値でないセルは除く）
+  const getNumericCells = (col: number) => dataRowIndexes
+    .map(rowIndex => ({ rowIndex, value: toNumber(data.rows[rowIndex][col] ?? '') }))
+    .filter(cell => !isNaN(cell.value));
+
+  for (const scale of colorScales) {
+    const col = sources.indexOf(scale.column);
+    const cells = col === -1 || scale.colors.length < 2 ? [] : getNumericCells(col);
+    if (cells.length === 0) continue;
+
+    const min = Math.min(...cells.map(cell => cell.value));
+    const max = Math.max(...cells.map(cell => cell.value));
+    for (const { rowIndex, value } of cells) {
+      const position = max === min ? 0.5 : (value - min) / (max - min);
+      setStyle(rowIndex, col, { backgroundColor: interpolateColors(scale.colors, position) });
+    }
+  }
+
+  for (const bar of dataBars) {
+    const col = sources.indexOf(bar.column);
+    const cells = col === -1 ? [] : getNumericCells(col);
+    if (cells.length === 0) continue;
+
+    // 範囲に 0 を含める（正の値だけの列は 0 を起点に、負数を含む列は最小値を起点に伸ばす）
+    const min = Math.min(0, ...cells.map(cell => cell.value));
+    const max = Math.max(0, ...cells.map(cell => cell.value));
+    for (const { rowIndex, value } of cells) {
+      const ratio = max === min ? 0 : (value - min) / (max - min);
+      setStyle(rowIndex, col, { dataBar: { ratio, color: bar.color } });
+    }
+  }
+
+  for (const rule of rules) {
+    const col = sources.indexOf(rule.column);
+    if (col === -1) continue;
+
+    const update: ConditionalStyle = {};
+    if (rule.bold) update.bold = true;
+    if (rule.color) update.color = rule.color;
+    if (rule.backgroundColor) update.backgroundColor = rule.backgroundColor;
+    for (const rowIndex of findMatchingRows(data, col, dataRowIndexes, rule)) {
+      setStyle(rowIndex, col, update);
+    }
+  }
+
+  const cellMeta = data.rows.map((row, rowIndex) =>
+    row.map((_, col): CellMeta | undefined => {
+      const meta = getCellMeta(data, rowIndex, col);
+      const conditional = styles[rowIndex][col];
+      return conditional ? { ...meta, conditional } : meta;
+    })
+  );
+
+  return {
+    ...data,
+    cellMeta,
+  };
 }
 
 /**
- * 文字列の推定幅を計算（全角=2, 半角=1として概算）
+ * ルールの条件を満たす行を取得（値が空のルールは未入力とみなして無視する）
+ * 大小比較・範囲・上位/下位は数値のセルのみ、上位/下位N件は同じ値をすべて含める
  */
-function estimateTextWidth(text: string): number {
-  let width = 0;
-  for (const char of text) {
-    // 全角文字の判定（日本語、全角記号など）
-    if (char.match(/[^\x00-\x7F]|[ａ-ｚＡ-Ｚ０-９]/)) {
-      width += 2;
-    } else {
-      width += 1;
+function findMatchingRows(data: TableData, col: number, rowIndexes: number[], rule: ConditionalRule): number[] {
+  const target = rule.value.trim();
+  if (target === '') return [];
+
+  const cells = rowIndexes.map(rowIndex => ({ rowIndex, text: (data.rows[rowIndex][col] ?? '').trim() }));
+  const numericCells = cells
+    .map(cell => ({ rowIndex: cell.rowIndex, value: toNumber(cell.text) }))
+    .filter(cell => !isNaN(cell.value));
+
+  switch (rule.operator) {
+    case 'greater':
+    case 'less': {
+      const threshold = toNumber(target);
+      if (isNaN(threshold)) return [];
+      return numericCells
+        .filter(cell => rule.operator === 'greater' ? cell.value > threshold : cell.value < threshold)
+        .map(cell => cell.rowIndex);
+    }
+    case 'between': {
+      const bounds = [toNumber(target), toNumber(rule.value2)];
+      if (bounds.some(bound => isNaN(bound))) return [];
+      const [lower, upper] = bounds.sort((a, b) => a - b);
+      return numericCells
+        .filter(cell => cell.value >= lower && cell.value <= upper)
+        .map(cell => cell.rowIndex);
+    }
+    case 'top':
+    case 'bottom': {
+      const count = parseInt(target, 10);
+      if (!Number.isInteger(count) || count <= 0) return [];
+      const sign = rule.operator === 'top' ? -1 : 1;
+      const sorted = numericCells.map(cell => cell.value).sort((a, b) => (a - b) * sign);
+      const boundary = sorted[Math.min(count, sorted.length) - 1];
+      return numericCells
+        .filter(cell => (cell.value - boundary) * sign <= 0)
+        .map(cell => cell.rowIndex);
     }
+    case 'contains':
+      return cells
+        .filter(cell => cell.text.toLowerCase().includes(target.toLowerCase()))
+        .map(cell => cell.rowIndex);
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(target, 'i');
+      } catch {
+        return [];
+      }
+      return cells.filter(cell => pattern.test(cell.text)).map(cell => cell.rowIndex);
+    }
+    default:
+      return [];
   }
-  return width;
 }
 
 /**
- * 列ごとの最大幅を計算（ヘッダーを含む）
+ * 複数の色の間を補間（position は 0〜1、色は等間隔に配置）
+ */
+export function interpolateColors(colors: string[], position: number): string {
+  const scaled = Math.min(Math.max(position, 0), 1) * (colors.length - 1);
+  const index = Math.min(Math.floor(scaled), colors.length - 2);
+  const from = parseHexColor(colors[index]);
+  const to = parseHexColor(colors[index + 1]);
+  const ratio = scaled - index;
+
+  return '#' + from
+    .map((channel, i) => Math.round(channel + (to[i] - channel) * ratio).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+/**
+ * 16進数の色（#RRGGBB / #RGB）を RGB に分解
+ */
+export function parseHexColor(color: string): number[] {
+  const hex = color.replace('#', '');
+  const full = hex.length === 3 ? hex.split('').map(char => char + char).join('') : hex.padEnd(6, '0');
+  return [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16) || 0);
+}
+
+/**
+ * 条件付き書式の評価結果をセルに適用
+ */
+function applyConditionalStyle(cell: RenderCell, conditional: ConditionalStyle | undefined): void {
+  if (!conditional) return;
+  if (conditional.bold) cell.bold = true;
+  if (conditional.color) cell.color = conditional.color;
+  if (conditional.backgroundColor) cell.backgroundColor = conditional.backgroundColor;
+  if (conditional.dataBar) cell.dataBar = conditional.dataBar;
+}
+
+/**
+ * データバーの背景（左から ratio の割合を塗り、残りはセルの背景色）
+ */
+export function buildDataBarGradient(cell: RenderCell): string | undefined {
+  if (!cell.dataBar) return undefined;
+  const percent = Math.round(cell.dataBar.ratio * 1000) / 10;
+  return `linear-gradient(90deg, ${cell.dataBar.color} 0%, ${cell.dataBar.color} ${percent}%, `
+    + `${cell.backgroundColor} ${percent}%, ${cell.backgroundColor} 100%)`;
+}
+
+/** 表の大きさの見積もりに使う文字幅・行数 */
+export interface TableTextMetrics {
+  /** 列ごとの文字列の最大幅（px、折り返し後。区切り列は null） */
+  columnWidths: (number | null)[];
+  /** 行ごとのセル内の最大行数（折り返し後。ヘッダー・集計行を含む） */
+  lineCounts: number[];
+}
+
+/** 折り返し後の表の文字列 */
+interface WrappedText {
+  /** セル内改行を挿入した表 */
+  data: TableData;
+  /** 列ごとの文字列の最大幅（px、区切り列は0） */
+  widths: number[];
+}
+
+/**
+ * 列ごとの文字列の最大幅（px）を出力フォントで計測（ヘッダー・集計行を含む）
+ * ヘッダー・集計行・小計行・太字のセルは太字で測る。グループ見出し行は行全体に結合されるため含めない
  */
-function calculateColumnWidths(data: TableData, separatorSet: Set<number>): number[] {
+function calculateColumnWidths(
+  data: TableData,
+  separatorSet: Set<number>,
+  fontFamily: string,
+  fontSize: number
+): number[] {
   const columnCount = data.headers.length;
   const widths: number[] = [];
+  const measure = (text: string, bold: boolean) => measureTextWidth(text, fontFamily, fontSize, bold);
 
   for (let col = 0; col < columnCount; col++) {
     if (separatorSet.has(col)) {
@@ -96,12 +417,16 @@ function calculateColumnWidths(data: TableData, separatorSet: Set<number>): numb
       continue;
     }
 
-    // ヘッダーの幅
-    let maxWidth = data.hasHeader ? estimateTextWidth(data.headers[col] || '') : 0;
+    // ヘッダー・集計行の幅
+    let maxWidth = Math.max(
+      data.hasHeader ? measure(data.headers[col] || '', true) : 0,
+      measure(data.footer?.[col] || '', true)
+    );
 
     // データ行の幅
-    for (const row of data.rows) {
-      const cellWidth = estimateTextWidth(row[col] || '');
+    for (const [rowIndex, row] of data.rows.entries()) {
+      if (getCellMeta(data, rowIndex, col)?.rowKind === 'group') continue;
+      const cellWidth = measure(row[col] || '', isBoldCell(data, rowIndex, col));
       if (cellWidth > maxWidth) {
         maxWidth = cellWidth;
       }
@@ -114,137 +439,610 @@ function calculateColumnWidths(data: TableData, separatorSet: Set<number>): numb
 }
 
 /**
- * HTMLテーブルを生成（インラインスタイル付き）
+ * データ行のセルを太字で描画するか（小計行・元データの太字・条件付き書式の太字）
+ */
+function isBoldCell(data: TableData, rowIndex: number, col: number): boolean {
+  const meta = getCellMeta(data, rowIndex, col);
+  return meta?.rowKind === 'subtotal' || !!meta?.format?.bold || !!meta?.conditional?.bold;
+}
+
+/**
+ * 列ごとの最大幅（px、0 = 制限なし）
+ * 列ごとの指定がなければ全体の指定を使う
+ */
+function getColumnMaxWidths(data: TableData, style: StyleOptions): number[] {
+  const overrides = style.columnMaxWidths || {};
+  return getColumnSources(data).map(source => overrides[String(source)] || style.maxColumnWidth || 0);
+}
+
+/**
+ * 最大幅を超える列のセルを折り返し、列ごとの文字列の幅を計測
+ * 列幅は折り返した後の最も長い行に合わせる
+ */
+function wrapTableText(
+  data: TableData,
+  style: StyleOptions,
+  separatorSet: Set<number>,
+  fontFamily: string,
+  fontSize: number
+): WrappedText {
+  const widths = calculateColumnWidths(data, separatorSet, fontFamily, fontSize);
+  const maxWidths = getColumnMaxWidths(data, style);
+  // 最大幅から左右の余白を除いた、文字列を置ける幅
+  const textLimits = maxWidths.map(width => Math.max(width - COLUMN_PADDING, 1));
+  const wrapSet = new Set(widths
+    .map((_, col) => col)
+    .filter(col => !separatorSet.has(col) && maxWidths[col] > 0 && widths[col] > textLimits[col]));
+  if (wrapSet.size === 0) {
+    return { data, widths };
+  }
+
+  const wrap = (value: string, col: number, bold: boolean) =>
+    wrapSet.has(col) ? wrapText(value, textLimits[col], fontFamily, fontSize, bold) : value;
+
+  const wrapped: TableData = {
+    ...data,
+    headers: data.headers.map((value, col) => wrap(value, col, true)),
+    rows: data.rows.map((row, rowIndex) => row.map((value, col) =>
+      getCellMeta(data, rowIndex, col)?.rowKind === 'group' ? value : wrap(value, col, isBoldCell(data, rowIndex, col))
+    )),
+    footer: data.footer?.map((value, col) => value === null ? null : wrap(value, col, true)),
+  };
+
+  return { data: wrapped, widths: calculateColumnWidths(wrapped, separatorSet, fontFamily, fontSize) };
+}
+
+/**
+ * 文字列の幅から列幅（px）を求める（左右の余白を加え、最小幅40px）
+ */
+function toColumnPxWidth(textWidth: number): number {
+  return Math.max(Math.ceil(textWidth + COLUMN_PADDING), MIN_COLUMN_WIDTH);
+}
+
+/**
+ * 表の大きさの見積もりに使う文字幅・行数を計算（密度によらない部分）
+ * 密度を変えながら大きさを見積もる際に、表を組み立て直さずに済むようにする
+ * 折り返しは文字サイズで変わるため、文字サイズごとに計算する
+ */
+export function measureTableText(data: TableData, style: StyleOptions, fontSize: number): TableTextMetrics {
+  const separatorSet = new Set(data.separatorColumns || []);
+  const wrapped = wrapTableText(data, style, separatorSet, resolveTheme(style).fontFamily, fontSize);
+  const lineCount = (row: (string | null)[]) => Math.max(1, ...row.map(value => (value || '').split('\n').length));
+
+  const lineCounts = wrapped.data.rows.map(lineCount);
+  if (data.hasHeader && data.headers.some(h => h !== '')) {
+    lineCounts.unshift(lineCount(wrapped.data.headers));
+  }
+  if (wrapped.data.footer) {
+    lineCounts.push(lineCount(wrapped.data.footer));
+  }
+
+  return {
+    columnWidths: wrapped.widths.map((width, col) => separatorSet.has(col) ? null : width),
+    lineCounts,
+  };
+}
+
+/**
+ * 表の大きさ（px）を見積もる（列幅・行の高さは buildTableModel・calculateRowHeight と同じ計算）
+ * 区切り列以外の幅には、HTMLのセルと同じく左右のパディングを含める
+ */
+export function estimateTableSize(
+  metrics: TableTextMetrics,
+  padding: CellPadding,
+  fontSize: number
+): { width: number; height: number } {
+  return {
+    width: metrics.columnWidths.reduce<number>(
+      (total, width) => total + (width === null ? SEPARATOR_WIDTH : toColumnPxWidth(width) + padding.horizontal * 2),
+      0
+    ),
+    height: metrics.lineCounts.reduce(
+      (total, lines) => total + Math.ceil(fontSize * LINE_HEIGHT_RATIO * lines + padding.vertical * 2),
+      0
+    ),
+  };
+}
+
+/**
+ * 描画用セルを生成（未指定の項目は既定値）
+ */
+function createRenderCell(cell: Partial<RenderCell>): RenderCell {
+  return {
+    value: '',
+    alignment: 'left',
+    backgroundColor: '#FFFFFF',
+    bold: false,
+    italic: false,
+    rowSpan: 1,
+    colSpan: 1,
+    isCovered: false,
+    isSeparator: false,
+    isBlockBoundary: false,
+    ...cell,
+  };
+}
+
+/**
+ * 貼り付け元の書式をテーマの上に重ねる
+ */
+function applySourceFormat(cell: RenderCell, format: CellFormat | undefined): void {
+  if (!format) return;
+  if (format.bold) cell.bold = true;
+  if (format.italic) cell.italic = true;
+  if (format.color) cell.color = format.color;
+  if (format.backgroundColor) cell.backgroundColor = format.backgroundColor;
+}
+
+/**
+ * 結合キーが同じ隣接セルを結合（起点セルに rowSpan/colSpan を設定し、残りを isCovered にする）
+ * 区切り列・ブロック境界をまたぐ結合は行わない
+ */
+function applyCellSpans(cells: RenderCell[][], mergeKeys: (string | undefined)[][]): void {
+  const canMerge = (row: number, col: number, key: string): boolean =>
+    mergeKeys[row]?.[col] === key
+    && !cells[row][col].isSeparator
+    && !cells[row][col].isCovered;
+
+  for (let row = 0; row < cells.length; row++) {
+    for (let col = 0; col < cells[row].length; col++) {
+      const key = mergeKeys[row]?.[col];
+      const anchor = cells[row][col];
+      if (key === undefined || anchor.isCovered || anchor.isSeparator) continue;
+
+      let colSpan = 1;
+      while (
+        col + colSpan < cells[row].length
+        && !cells[row][col + colSpan - 1].isBlockBoundary
+        && canMerge(row, col + colSpan, key)
+      ) {
+        colSpan++;
+      }
+
+      let rowSpan = 1;
+      while (row + rowSpan < cells.length) {
+        const nextRow = row + rowSpan;
+        let matches = true;
+        for (let c = col; c < col + colSpan; c++) {
+          if (!canMerge(nextRow, c, key)) {
+            matches = false;
+            break;
+          }
+        }
+        if (!matches) break;
+        rowSpan++;
+      }
+
+      if (rowSpan === 1 && colSpan === 1) continue;
+
+      anchor.rowSpan = rowSpan;
+      anchor.colSpan = colSpan;
+      anchor.isBlockBoundary = cells[row][col + colSpan - 1].isBlockBoundary;
+      for (let r = row; r < row + rowSpan; r++) {
+        for (let c = col; c < col + colSpan; c++) {
+          if (r !== row || c !== col) {
+            cells[r][c].isCovered = true;
+            cells[r][c].spanOffset = { row: r - row, col: c - col };
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * データ行の結合キーを求める
+ * 貼り付け元の結合を優先し、自動結合の対象列では同じ値が続くセルに同じキーを割り当てる
+ * キーには同じブロック内で左側にある自動結合列の値も含め、外側のグループが切り替わる位置で結合を切る
+ */
+function buildRowMergeKeys(data: TableData, autoMergeColumns: number[]): (string | undefined)[][] {
+  const autoMergeSet = new Set(autoMergeColumns);
+  const sources = getColumnSources(data);
+  const separatorSet = new Set(data.separatorColumns || []);
+  const blockStartSet = new Set(data.blockStarts || []);
+
+  // 列ごとのブロック番号（段組みの各ブロックの先頭で切り替わる）
+  const blockIndexes: number[] = [];
+  let blockIndex = 0;
+  data.headers.forEach((_, colIndex) => {
+    if (colIndex > 0 && blockStartSet.has(colIndex)) {
+      blockIndex++;
+    }
+    blockIndexes.push(blockIndex);
+  });
+
+  return data.rows.map((row, rowIndex) => {
+    let currentBlock = -1;
+    let groupValues: string[] = [];
+
+    return row.map((value, colIndex) => {
+      const sourceMergeId = getCellMeta(data, rowIndex, colIndex)?.mergeId;
+      if (sourceMergeId !== undefined) return sourceMergeId;
+      if (separatorSet.has(colIndex) || !autoMergeSet.has(sources[colIndex])) return undefined;
+
+      if (blockIndexes[colIndex] !== currentBlock) {
+        currentBlock = blockIndexes[colIndex];
+        groupValues = [];
+      }
+      groupValues.push(value);
+      // 空セル（段組みの埋め草を含む）は結合しない
+      return value === '' ? undefined : JSON.stringify([colIndex, ...groupValues]);
+    });
+  });
+}
+
+/**
+ * 組み込みテーマ名か
  */
-export function renderTable(data: TableData, style: StyleOptions): string {
+export function isBuiltinTheme(name: string): name is ThemeName {
+  return Object.prototype.hasOwnProperty.call(THEMES, name);
+}
+
+/**
+ * テーマ名からテーマ定義を解決（見つからない場合は standard-blue）
+ */
+export function resolveTheme(style: StyleOptions): ThemeDefinition {
+  if (isBuiltinTheme(style.theme)) {
+    return { ...THEMES[style.theme], ...DEFAULT_THEME_STYLE };
+  }
+  const custom = style.customThemes?.find(theme => theme.name === style.theme);
+  if (custom) {
+    const { name: _name, ...definition } = custom;
+    return definition;
+  }
+  return { ...THEMES['standard-blue'], ...DEFAULT_THEME_STYLE };
+}
+
+/**
+ * 描画用のテーブルモデルを構築
+ * テーマ・ゼブラ・ハイライト・列幅を解決し、HTML/PPTX/画像の各出力で共有する
+ */
+export function buildTableModel(data: TableData, style: StyleOptions): TableModel | null {
   if (data.headers.length === 0 && data.rows.length === 0) {
-    return '';
+    return null;
   }
 
-  const theme = THEMES[style.theme];
-  const padding = DENSITY_PADDING[style.density];
-  const alignments = detectAlignment(data);
+  const theme = resolveTheme(style);
+  const alignments = applyAlignmentOverrides(detectAlignment(data), data, style.columnAlignments || {});
   const separatorSet = new Set(data.separatorColumns || []);
   const borderBoundarySet = new Set(data.borderBoundaries || []);
-  const highlightColor = getHighlightColor(style);
-  const highlightWords = style.highlightWords || [];
-  
-  // 列幅を計算（ヘッダーを含む）
-  const columnWidths = calculateColumnWidths(data, separatorSet);
 
-  const tableStyle = `
-    border-collapse: collapse;
-    font-family: 'Segoe UI', 'Yu Gothic UI', 'Meiryo', sans-serif;
-    font-size: 14px;
-    width: max-content;
-  `.replace(/\s+/g, ' ').trim();
+  const fontSize = style.fontSize > 0 ? style.fontSize : theme.fontSize;
 
-  let html = `<table style="${tableStyle}">`;
-  
-  // 列幅をピクセル値に変換（各セルに適用）
-  const columnPxWidths = columnWidths.map((width, colIndex) => {
-    if (separatorSet.has(colIndex)) {
-      return 16; // 区切り列は固定幅
-    } else {
-      // 文字幅 × 約8px（フォントサイズ14pxの半角幅）+ パディング
-      return Math.max(width * 8 + 24, 40); // 最小幅40px
-    }
+  // 最大幅を超える列を折り返して列幅を計算（ヘッダーを含む）し、ピクセル値に変換
+  const wrapped = wrapTableText(data, style, separatorSet, theme.fontFamily, fontSize);
+  const columnPxWidths = wrapped.widths
+    .map((width, colIndex) => separatorSet.has(colIndex) ? SEPARATOR_WIDTH : toColumnPxWidth(width));
+
+  const buildSeparatorCell = (): RenderCell => createRenderCell({
+    backgroundColor: 'transparent',
+    isSeparator: true,
   });
 
   // ヘッダー行
+  let header: RenderCell[] | null = null;
   if (data.hasHeader && data.headers.some(h => h !== '')) {
-    html += '<thead><tr>';
-    data.headers.forEach((header, colIndex) => {
+    header = wrapped.data.headers.map((value, colIndex) => {
       if (separatorSet.has(colIndex)) {
-        // 区切り列: 透明
-        const separatorStyle = buildSeparatorStyle();
-        html += `<th style="${separatorStyle}"></th>`;
-      } else {
-        const headerStyle = buildCellStyle({
-          backgroundColor: theme.headerBg,
-          color: theme.headerText,
-          fontWeight: 'bold',
-          padding,
-          textAlign: alignments[colIndex] || 'left',
-          minWidth: columnPxWidths[colIndex],
-          borderRight: borderBoundarySet.has(colIndex) ? '3px solid #666' : undefined,
-        });
-        html += `<th style="${headerStyle}">${escapeHtml(header)}</th>`;
+        return buildSeparatorCell();
       }
+      const cell = createRenderCell({
+        value,
+        alignment: alignments[colIndex] || 'left',
+        backgroundColor: theme.headerBg,
+        color: theme.headerText,
+        bold: true,
+        isBlockBoundary: borderBoundarySet.has(colIndex),
+      });
+      if (style.keepSourceFormatting) {
+        applySourceFormat(cell, data.headerMeta?.[colIndex]?.format);
+      }
+      return cell;
     });
-    html += '</tr></thead>';
+    applyCellSpans([header], [data.headers.map((_, col) => data.headerMeta?.[col]?.mergeId)]);
   }
 
   // データ行
-  html += '<tbody>';
-  data.rows.forEach((row, rowIndex) => {
+  const rows = wrapped.data.rows.map((row, rowIndex) => {
     const isEven = rowIndex % 2 === 0;
-    const rowBg = style.zebra 
+    const rowBg = style.zebra
       ? (isEven ? theme.zebraOdd : theme.zebraEven)
       : '#FFFFFF';
 
-    html += '<tr>';
-    row.forEach((cell, colIndex) => {
+    return row.map((value, colIndex): RenderCell => {
       if (separatorSet.has(colIndex)) {
-        // 区切り列: 透明
-        const separatorStyle = buildSeparatorStyle();
-        html += `<td style="${separatorStyle}"></td>`;
-      } else {
-        // ハイライト判定
-        const isHighlighted = shouldHighlight(cell, highlightWords);
-        const cellBg = isHighlighted ? highlightColor : rowBg;
-        
-        const cellStyle = buildCellStyle({
-          backgroundColor: cellBg,
-          padding,
-          textAlign: alignments[colIndex] || 'left',
-          minWidth: columnPxWidths[colIndex],
-          borderRight: borderBoundarySet.has(colIndex) ? '3px solid #666' : undefined,
-        });
-        html += `<td style="${cellStyle}">${escapeHtml(cell)}</td>`;
+        return buildSeparatorCell();
+      }
+      // 段組み後は同じ行にブロックごとの行の種類が混在するため、セル単位で判定する
+      const rowKind = getCellMeta(data, rowIndex, colIndex)?.rowKind ?? 'data';
+      const cell = createRenderCell({
+        value,
+        alignment: alignments[colIndex] || 'left',
+        backgroundColor: rowKind === 'group' ? theme.zebraEven : rowBg,
+        bold: rowKind !== 'data',
+        isBlockBoundary: borderBoundarySet.has(colIndex),
+      });
+      if (style.keepSourceFormatting) {
+        applySourceFormat(cell, getCellMeta(data, rowIndex, colIndex)?.format);
+      }
+      if (getCellMeta(data, rowIndex, colIndex)?.negative) {
+        cell.color = NEGATIVE_TEXT_COLOR;
       }
+      applyConditionalStyle(cell, getCellMeta(data, rowIndex, colIndex)?.conditional);
+      // ハイライト（元データの書式・条件付き書式より優先）
+      const highlight = getCellMeta(data, rowIndex, colIndex)?.highlight;
+      if (highlight) {
+        cell.backgroundColor = highlight;
+      }
+      return cell;
+    });
+  });
+  applyCellSpans(rows, buildRowMergeKeys(data, style.autoMergeColumns || []));
+
+  // 集計行（ヘッダーと同じ配色）
+  const footer = wrapped.data.footer?.map((value, colIndex): RenderCell => {
+    if (value === null || separatorSet.has(colIndex)) {
+      return buildSeparatorCell();
+    }
+    return createRenderCell({
+      value,
+      alignment: alignments[colIndex] || 'left',
+      backgroundColor: theme.headerBg,
+      color: data.footerMeta?.[colIndex]?.negative ? NEGATIVE_TEXT_COLOR : theme.headerText,
+      bold: true,
+      isBlockBoundary: borderBoundarySet.has(colIndex),
+    });
+  }) ?? null;
+
+  return {
+    columnWidths: columnPxWidths,
+    header,
+    rows,
+    footer,
+    padding: DENSITY_PADDING[style.density],
+    fontFamily: theme.fontFamily,
+    fontSize,
+    border: { width: theme.borderWidth, color: theme.borderColor },
+    headerBorder: { width: theme.headerBorderWidth, color: theme.headerBorderColor },
+    boundaryBorder: { width: BOUNDARY_BORDER_WIDTH, color: theme.separatorColor },
+  };
+}
+
+/**
+ * HTMLテーブルを生成（インラインスタイル付き）
+ * 貼り付け先に合わせて列幅・罫線・単位の書き出し方を変える
+ */
+export function renderTable(data: TableData, style: StyleOptions, target: PasteTarget = 'powerpoint'): string {
+  const model = buildTableModel(data, style);
+  if (!model) {
+    return '';
+  }
+
+  const profile = PASTE_PROFILES[target];
+  const length = (px: number) => formatLength(px, profile.unit);
+  const padding = `${length(model.padding.vertical)} ${length(model.padding.horizontal)}`;
+  const border = formatBorder(model.border, profile.unit);
+  const headerBorder = formatBorder(model.headerBorder, profile.unit);
+  const boundaryBorder = formatBorder(model.boundaryBorder, profile.unit);
+  const lineBreak = profile.msoStyles ? '<br style="mso-data-placement: same-cell">' : '<br>';
+
+  const tableStyle = `
+    border-collapse: collapse;
+    font-family: ${escapeHtml(model.fontFamily)};
+    font-size: ${length(model.fontSize)};
+    width: max-content;
+  `.replace(/\s+/g, ' ').trim();
+
+  const tableAttributes = profile.tableAttributes
+    ? ` border="${model.border.width}" cellspacing="0" cellpadding="${model.padding.horizontal}"`
+    : '';
+  let html = `<table${tableAttributes} style="${tableStyle}">`;
+
+  if (profile.widthAttributes) {
+    html += '<colgroup>'
+      + model.columnWidths.map(width => `<col width="${width}" style="width: ${length(width)}">`).join('')
+      + '</colgroup>';
+  }
+
+  const renderCell = (cell: RenderCell, colIndex: number, tag: 'th' | 'td'): string => {
+    if (cell.isCovered) {
+      // 結合されたセルは出力しない
+      return '';
+    }
+    // 結合セルは結合範囲の列幅の合計
+    const width = model.columnWidths
+      .slice(colIndex, colIndex + cell.colSpan)
+      .reduce((total, columnWidth) => total + columnWidth, 0);
+    const widthAttribute = profile.widthAttributes ? ` width="${width}"` : '';
+    if (cell.isSeparator) {
+      // 区切り列: 透明
+      return `<${tag}${widthAttribute} style="${buildSeparatorStyle(length)}"></${tag}>`;
+    }
+    const cellStyle = buildCellStyle({
+      backgroundColor: cell.backgroundColor,
+      backgroundImage: buildDataBarGradient(cell),
+      color: cell.color,
+      fontWeight: cell.bold ? 'bold' : undefined,
+      fontStyle: cell.italic ? 'italic' : undefined,
+      padding,
+      textAlign: cell.alignment,
+      minWidth: length(model.columnWidths[colIndex]),
+      width: profile.widthAttributes ? length(width) : undefined,
+      border,
+      borderRight: cell.isBlockBoundary ? boundaryBorder : undefined,
+      borderBottom: tag === 'th' && headerBorder !== border ? headerBorder : undefined,
+      numberFormat: profile.msoStyles ? getExcelNumberFormat(cell.value, tag === 'th') : undefined,
+    });
+    // セル内改行は <br> として出力
+    const content = escapeHtml(cell.value).replace(/\r?\n/g, lineBreak);
+    const spans = (cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : '')
+      + (cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : '');
+    return `<${tag}${spans}${widthAttribute} style="${cellStyle}">${content}</${tag}>`;
+  };
+
+  // ヘッダー行
+  if (model.header) {
+    html += '<thead><tr>';
+    model.header.forEach((cell, colIndex) => {
+      html += renderCell(cell, colIndex, 'th');
+    });
+    html += '</tr></thead>';
+  }
+
+  // データ行
+  html += '<tbody>';
+  model.rows.forEach(row => {
+    html += '<tr>';
+    row.forEach((cell, colIndex) => {
+      html += renderCell(cell, colIndex, 'td');
     });
     html += '</tr>';
   });
   html += '</tbody>';
 
+  // 集計行
+  if (model.footer) {
+    html += '<tfoot><tr>';
+    model.footer.forEach((cell, colIndex) => {
+      html += renderCell(cell, colIndex, 'td');
+    });
+    html += '</tr></tfoot>';
+  }
+
   html += '</table>';
   return html;
 }
 
+/**
+ * 各列の描画幅（px）。区切り列以外は、HTMLのセルと同じく列幅に左右のパディングを含める
+ */
+export function getRenderedColumnWidths(model: TableModel): number[] {
+  const firstRow = getModelRows(model)[0] ?? [];
+  return model.columnWidths.map((width, colIndex) =>
+    firstRow[colIndex]?.isSeparator ? width : width + model.padding.horizontal * 2
+  );
+}
+
+/**
+ * ヘッダー・データ行・集計行を上から順に並べた全行
+ */
+export function getModelRows(model: TableModel): RenderCell[][] {
+  return [
+    ...(model.header ? [model.header] : []),
+    ...model.rows,
+    ...(model.footer ? [model.footer] : []),
+  ];
+}
+
+/**
+ * 行の高さ（px）を推定（セル内改行を考慮）
+ * PPTX・画像出力など、ブラウザのレイアウトを使えない出力で使用
+ */
+export function calculateRowHeight(row: RenderCell[], model: TableModel): number {
+  const lineCount = Math.max(1, ...row.map(cell => cell.value.split('\n').length));
+  return Math.ceil(model.fontSize * LINE_HEIGHT_RATIO * lineCount + model.padding.vertical * 2);
+}
+
 interface CellStyleOptions {
   backgroundColor?: string;
+  backgroundImage?: string;
   color?: string;
   fontWeight?: string;
+  fontStyle?: string;
   padding: string;
   textAlign: Alignment;
-  minWidth?: number;
+  minWidth?: string;
+  width?: string;
+  border: string;
   borderRight?: string;
+  borderBottom?: string;
+  /** Excelの表示形式 */
+  numberFormat?: string;
+}
+
+/**
+ * 長さ（px）を貼り付け先の単位で表記（1pt = 4/3px）
+ */
+function formatLength(px: number, unit: LengthUnit): string {
+  return unit === 'pt' ? `${Math.round(px * 0.75 * 100) / 100}pt` : `${px}px`;
+}
+
+/**
+ * 罫線をCSSの border 値に変換（太さ0は罫線なし）
+ */
+function formatBorder(border: TableBorder, unit: LengthUnit): string {
+  return border.width > 0 ? `${formatLength(border.width, unit)} solid ${border.color}` : 'none';
+}
+
+/**
+ * Excelの表示形式（mso-number-format）をセルの表記から求める（既定の表示形式でよければ undefined）
+ * 数値は3桁区切り・小数桁数・%・通貨記号・括弧の負数を保ち、数値として貼り付けると表記が変わる値は文字列にする
+ */
+function getExcelNumberFormat(value: string, isHeader: boolean): string | undefined {
+  if (value === '') return undefined;
+  const parsed = isHeader ? null : parseNumericValue(value);
+  // ▲の負数・先頭が0の番号・15桁を超える数字はExcelが数値として扱えないため文字列にする
+  if (!parsed || parsed.negativeNotation === 'triangle' || /^0\d/.test(value.trim()) || /\d{16,}/.test(value)) {
+    return '\\@';
+  }
+
+  const grouping = value.includes(',') || value.includes('，');
+  let format = (grouping ? '#,##0' : '0') + (parsed.decimals > 0 ? `.${'0'.repeat(parsed.decimals)}` : '');
+  if (format === '0' && !parsed.prefix && !parsed.suffix && parsed.negativeNotation === 'minus') {
+    return undefined;
+  }
+  if (parsed.prefix) {
+    format = `\\${parsed.prefix}${format}`;
+  }
+  if (parsed.suffix === '%') {
+    format += '%';
+  } else if (parsed.suffix) {
+    format += `\\${parsed.suffix}`;
+  }
+  if (parsed.negativeNotation === 'parentheses') {
+    format = `${format};\\(${format}\\)`;
+  }
+  return format;
 }
 
 function buildCellStyle(options: CellStyleOptions): string {
   const styles: string[] = [
-    'border: 1px solid #D0D0D0',
+    `border: ${options.border}`,
     `padding: ${options.padding}`,
     `text-align: ${options.textAlign}`,
     'white-space: nowrap',
   ];
 
   if (options.minWidth) {
-    styles.push(`min-width: ${options.minWidth}px`);
+    styles.push(`min-width: ${options.minWidth}`);
+  }
+  if (options.width) {
+    styles.push(`width: ${options.width}`);
   }
   if (options.backgroundColor) {
     styles.push(`background-color: ${options.backgroundColor}`);
   }
+  if (options.backgroundImage) {
+    styles.push(`background-image: ${options.backgroundImage}`);
+  }
   if (options.color) {
     styles.push(`color: ${options.color}`);
   }
   if (options.fontWeight) {
     styles.push(`font-weight: ${options.fontWeight}`);
   }
+  if (options.fontStyle) {
+    styles.push(`font-style: ${options.fontStyle}`);
+  }
   if (options.borderRight) {
     styles.push(`border-right: ${options.borderRight}`);
   }
+  if (options.borderBottom) {
+    styles.push(`border-bottom: ${options.borderBottom}`);
+  }
+  if (options.numberFormat) {
+    styles.push(`mso-number-format: '${options.numberFormat}'`);
+  }
 
   return styles.join('; ');
 }
@@ -252,13 +1050,13 @@ function buildCellStyle(options: CellStyleOptions): string {
 /**
  * 区切り列用の透明スタイル
  */
-function buildSeparatorStyle(): string {
+function buildSeparatorStyle(length: (px: number) => string): string {
   return [
     'border: none',
     'background-color: transparent',
-    'padding: 0 8px',
-    'width: 16px',
-    'min-width: 16px',
+    `padding: 0 ${length(8)}`,
+    `width: ${length(SEPARATOR_WIDTH)}`,
+    `min-width: ${length(SEPARATOR_WIDTH)}`,
   ].join('; ');
 }
 
@@ -273,17 +1071,71 @@ function escapeHtml(text: string): string {
 
 /**
  * プレーンテキスト形式でテーブルを生成（タブ区切り）
+ * 改行・タブ・引用符を含むセルはExcelと同じく引用符で囲む
+ * style を指定すると、結合されたセルは起点セルにのみ値を出力する（Excelの結合セルのコピーと同じ）
  */
-export function renderPlainText(data: TableData): string {
+export function renderPlainText(data: TableData, style?: StyleOptions): string {
   const lines: string[] = [];
+  const model = style ? buildTableModel(data, style) : null;
+  const toLine = (values: string[], cells: RenderCell[] | null | undefined) =>
+    values.map((value, colIndex) => quotePlainTextCell(cells?.[colIndex]?.isCovered ? '' : value)).join('\t');
 
   if (data.hasHeader && data.headers.some(h => h !== '')) {
-    lines.push(data.headers.join('\t'));
+    lines.push(toLine(data.headers, model?.header));
   }
 
-  data.rows.forEach(row => {
-    lines.push(row.join('\t'));
+  data.rows.forEach((row, rowIndex) => {
+    lines.push(toLine(row, model?.rows[rowIndex]));
   });
 
+  if (data.footer) {
+    lines.push(toLine(data.footer.map(value => value ?? ''), null));
+  }
+
   return lines.join('\n');
 }
+
+function quotePlainTextCell(value: string): string {
+  if (!/[\t\n]/.test(value) && !value.startsWith('"')) return value;
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/** 配置 → Markdownの配置行 */
+const MARKDOWN_ALIGNMENT: Record<Alignment, string> = {
+  left: ':---',
+  center: ':---:',
+  right: '---:',
+};
+
+/**
+ * Markdown形式（パイプテーブル）でテーブルを生成
+ * 区切り列は空の列として出力し、配置は配置行（:---: など）で表す
+ */
+export function renderMarkdown(data: TableData, style: StyleOptions): string {
+  if (data.headers.length === 0 && data.rows.length === 0) {
+    return '';
+  }
+
+  const separatorSet = new Set(data.separatorColumns || []);
+  const alignments = applyAlignmentOverrides(detectAlignment(data), data, style.columnAlignments || {});
+  const toRow = (cells: string[]) => `| ${cells.map(escapeMarkdownCell).join(' | ')} |`;
+
+  // Markdownの表は見出し行が必須のため、ヘッダーなしの場合は空の見出しを出力
+  const headers = data.hasHeader ? data.headers : data.headers.map(() => '');
+  const alignmentRow = headers.map((_, colIndex) =>
+    separatorSet.has(colIndex) ? '---' : MARKDOWN_ALIGNMENT[alignments[colIndex] || 'left']
+  );
+
+  const lines = [
+    toRow(headers),
+    `| ${alignmentRow.join(' | ')} |`,
+    ...data.rows.map(row => toRow(row)),
+  ];
+  return lines.join('\n');
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>');
+}
@@ -0,0 +1,181 @@
+/**
+ * RTF生成 - テーブルをRTFの表として出力する（Keynote・Wordなど、HTMLより RTF を正しく読む貼り付け先向け）
+ */
+
+import type { TableData, StyleOptions, RenderCell, TableModel, TableBorder, Alignment } from './types';
+import { buildTableModel, calculateRowHeight, getModelRows, getRenderedColumnWidths, parseHexColor } from './renderer';
+import { getPrimaryFont } from './measure';
+
+/** 1pxあたりのtwip（96dpi換算。1pt = 20twip） */
+const TWIPS_PER_PX = 15;
+
+/** 総称フォント名の場合に使うフォント */
+const FALLBACK_FONT = 'Arial';
+
+/** 総称フォント名（RTFのフォントテーブルには書けない） */
+const GENERIC_FONTS = ['sans-serif', 'serif', 'monospace'];
+
+/** 既定の文字色 */
+const DEFAULT_TEXT_COLOR = '#000000';
+
+/** 配置 → 段落の配置 */
+const ALIGNMENT_MAP: Record<Alignment, string> = {
+  left: '\\ql',
+  center: '\\qc',
+  right: '\\qr',
+};
+
+/**
+ * ページごとのテーブルからRTFを生成（複数ページは空行を挟んで縦に並べる）
+ */
+export function renderRtf(pages: TableData[], style: StyleOptions): string {
+  const models = pages
+    .map(page => buildTableModel(page, style))
+    .filter((model): model is TableModel => model !== null);
+  if (models.length === 0) {
+    return '';
+  }
+
+  const colors: string[] = [];
+  const tables = models.map(model => buildTableRtf(model, colors)).join('\\pard\\par\n');
+
+  return '{\\rtf1\\ansi\\ansicpg1252\\deff0\\uc1\n'
+    + `{\\fonttbl{\\f0\\fnil ${escapeRtf(getFontName(models[0].fontFamily))};}}\n`
+    + `${buildColorTable(colors)}\n`
+    + tables
+    + '\\pard\\par}';
+}
+
+/**
+ * 1つのテーブルを出力（行ごとに \trowd 〜 \row）
+ */
+function buildTableRtf(model: TableModel, colors: string[]): string {
+  const allRows = getModelRows(model);
+  const columnRight: number[] = [];
+  let right = 0;
+  // \cellx はセルの左右の余白を含む右端の位置
+  for (const width of getRenderedColumnWidths(model)) {
+    right += width;
+    columnRight.push(right * TWIPS_PER_PX);
+  }
+
+  const horizontal = model.padding.horizontal * TWIPS_PER_PX;
+  const vertical = model.padding.vertical * TWIPS_PER_PX;
+  const fontSize = Math.round(model.fontSize * 1.5);
+  const headerRows = model.header ? 1 : 0;
+
+  return allRows.map((row, rowIndex) => {
+    const rowHeight = calculateRowHeight(row, model) * TWIPS_PER_PX;
+    let definitions = `\\trowd\\trgaph${horizontal}\\trleft0\\trrh${rowHeight}`
+      + `\\trpaddl${horizontal}\\trpaddr${horizontal}\\trpaddt${vertical}\\trpaddb${vertical}`
+      + '\\trpaddfl3\\trpaddfr3\\trpaddft3\\trpaddfb3';
+    let contents = '';
+
+    row.forEach((cell, colIndex) => {
+      // 横方向の結合は1つの広いセルとして出力するため、結合された側は出力しない
+      if (cell.isCovered && cell.spanOffset && cell.spanOffset.col > 0) return;
+
+      const origin = cell.isCovered && cell.spanOffset ? allRows[rowIndex - cell.spanOffset.row][colIndex] : cell;
+      const lastCol = colIndex + origin.colSpan - 1;
+
+      // 縦方向の結合: 起点セルは \clvmgf、結合された側は \clvmrg
+      let cellDefinition = cell.isCovered ? '\\clvmrg' : cell.rowSpan > 1 ? '\\clvmgf' : '';
+      cellDefinition += '\\clvertalc';
+      // 罫線: ブロック境界は太線、ヘッダーとデータ行の間はヘッダー下の罫線、区切り列は罫線なし
+      if (!cell.isSeparator) {
+        const topBorder = rowIndex === headerRows && headerRows > 0 ? model.headerBorder : model.border;
+        const bottomBorder = rowIndex === headerRows - 1 ? model.headerBorder : model.border;
+        const leftBorder = row[colIndex - 1]?.isBlockBoundary ? model.boundaryBorder : model.border;
+        const rightBorder = row[lastCol]?.isBlockBoundary ? model.boundaryBorder : model.border;
+        cellDefinition += buildBorderRtf('\\clbrdrt', topBorder, colors)
+          + buildBorderRtf('\\clbrdrl', leftBorder, colors)
+          + buildBorderRtf('\\clbrdrb', bottomBorder, colors)
+          + buildBorderRtf('\\clbrdrr', rightBorder, colors);
+        const background = getColorIndex(colors, origin.backgroundColor);
+        if (background !== null) {
+          cellDefinition += `\\clcbpat${background}`;
+        }
+      }
+      definitions += `${cellDefinition}\\cellx${columnRight[lastCol]}`;
+
+      const text = cell.isCovered || cell.isSeparator ? '' : buildTextRtf(cell, fontSize, colors);
+      contents += `\\pard\\intbl${ALIGNMENT_MAP[cell.alignment]}${text}\\cell`;
+    });
+
+    return `${definitions}\n${contents}\\row\n`;
+  }).join('');
+}
+
+/**
+ * セルの文字列を出力（太字・斜体・文字色・セル内改行）
+ */
+function buildTextRtf(cell: RenderCell, fontSize: number, colors: string[]): string {
+  const color = getColorIndex(colors, cell.color || DEFAULT_TEXT_COLOR) ?? 0;
+  const format = `\\f0\\fs${fontSize}\\cf${color}${cell.bold ? '\\b' : ''}${cell.italic ? '\\i' : ''}`;
+  const text = cell.value.split('\n').map(escapeRtf).join('\\line ');
+  return `{${format} ${text}}`;
+}
+
+/**
+ * セルの罫線を出力（太さ0は罫線なし）
+ */
+function buildBorderRtf(control: string, border: TableBorder, colors: string[]): string {
+  if (border.width <= 0) {
+    return `${control}\\brdrnone`;
+  }
+  const color = getColorIndex(colors, border.color) ?? 0;
+  return `${control}\\brdrs\\brdrw${border.width * TWIPS_PER_PX}\\brdrcf${color}`;
+}
+
+/**
+ * カラーテーブルでの色の番号（初出の色は末尾に追加。0番は既定の色、透明・解釈できない色は null）
+ * colors には "赤,緑,青" の形式で色を溜める
+ */
+function getColorIndex(colors: string[], color: string | undefined): number | null {
+  if (!color || !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color.trim())) return null;
+  const rgb = parseHexColor(color.trim()).join(',');
+  let index = colors.indexOf(rgb);
+  if (index === -1) {
+    index = colors.push(rgb) - 1;
+  }
+  return index + 1;
+}
+
+function buildColorTable(colors: string[]): string {
+  const entries = colors.map(rgb => {
+    const [red, green, blue] = rgb.split(',');
+    return `\\red${red}\\green${green}\\blue${blue};`;
+  });
+  return `{\\colortbl;${entries.join('')}}`;
+}
+
+/**
+ * フォントテーブルに書くフォント名（CSSのfont-familyの先頭。総称フォント名なら代わりのフォント）
+ */
+function getFontName(fontFamily: string): string {
+  const face = getPrimaryFont(fontFamily);
+  return face && !GENERIC_FONTS.includes(face) ? face : FALLBACK_FONT;
+}
+
+/**
+ * RTFの特殊文字をエスケープし、ASCII以外は \uN? で出力（UTF-16の単位ごと）
+ */
+function escapeRtf(text: string): string {
+  let escaped = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code === 0x5C || code === 0x7B || code === 0x7D) {
+      escaped += `\\${text[i]}`;
+    } else if (code === 0x09) {
+      escaped += '\\tab ';
+    } else if (code < 0x20) {
+      continue;
+    } else if (code < 0x80) {
+      escaped += text[i];
+    } else {
+      // \u は符号付き16bit
+      escaped += `\\u${code > 0x7FFF ? code - 0x10000 : code}?`;
+    }
+  }
+  return escaped;
+}
@@ -0,0 +1,89 @@
+/**
+ * 並べ替え - 複数キー・昇順/降順、数値・日付と日本語（かな順）を考慮した比較
+ */
+
+import type { TableData, SortKey } from './types';
+import { getColumnSources, isNumeric, detectColumnTypes } from './formatter';
+import { toNumber } from './numbers';
+import { parseDateValue, getDateTime } from './dates';
+import { selectRows } from './table';
+
+/** 日本語の照合順序（かなは五十音順、文字列中の数字は数値として比較） */
+const collator = new Intl.Collator('ja', { numeric: true, sensitivity: 'base' });
+
+/**
+ * セルの値を比較
+ * 数値同士は数値として比較し、数値は文字列より前に並べる
+ */
+export function compareValues(a: string, b: string): number {
+  const trimmedA = a.trim();
+  const trimmedB = b.trim();
+  const isNumberA = isNumeric(trimmedA);
+  const isNumberB = isNumeric(trimmedB);
+
+  if (isNumberA && isNumberB) {
+    return toNumber(trimmedA) - toNumber(trimmedB);
+  }
+  if (isNumberA !== isNumberB) {
+    return isNumberA ? -1 : 1;
+  }
+  return collator.compare(trimmedA, trimmedB);
+}
+
+/**
+ * 日付のセルを比較（日付として読めない値は日付の後に文字列として並べる）
+ */
+export function compareDateValues(a: string, b: string): number {
+  const dateA = parseDateValue(a, true);
+  const dateB = parseDateValue(b, true);
+
+  if (dateA && dateB) {
+    return getDateTime(dateA) - getDateTime(dateB);
+  }
+  if (dateA || dateB) {
+    return dateA ? -1 : 1;
+  }
+  return compareValues(a, b);
+}
+
+/**
+ * 並べ替えキーに従って行を並べ替える（同順位は元の順を保つ）
+ * 日付列は日付として比較し、空のセルは昇順・降順どちらでも末尾に置く
+ */
+export function sortRows(data: TableData, keys: SortKey[]): TableData {
+  const sources = getColumnSources(data);
+  const columnTypes = detectColumnTypes(data);
+  const resolvedKeys = keys
+    .map(key => {
+      const column = sources.indexOf(key.column);
+      return {
+        column,
+        sign: key.direction === 'desc' ? -1 : 1,
+        compare: columnTypes[column] === 'date' ? compareDateValues : compareValues,
+      };
+    })
+    .filter(key => key.column !== -1);
+  if (resolvedKeys.length === 0 || data.rows.length < 2) {
+    return data;
+  }
+
+  const indexes = data.rows.map((_, index) => index);
+  indexes.sort((indexA, indexB) => {
+    for (const { column, sign, compare } of resolvedKeys) {
+      const a = data.rows[indexA][column] ?? '';
+      const b = data.rows[indexB][column] ?? '';
+      const isEmptyA = a.trim() === '';
+      const isEmptyB = b.trim() === '';
+      if (isEmptyA || isEmptyB) {
+        if (isEmptyA !== isEmptyB) return isEmptyA ? 1 : -1;
+        continue;
+      }
+
+      const result = compare(a, b);
+      if (result !== 0) return result * sign;
+    }
+    return 0;
+  });
+
+  return selectRows(data, indexes);
+}
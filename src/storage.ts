@@ -2,7 +2,11 @@
  * ストレージモジュール - localStorage への保存・復元
  */
 
-import type { AllOptions, ThemeName, Density, HighlightPreset } from './types';
+import type {
+  AllOptions, ThemeName, Density, HighlightPreset, FillOrder, ImageScale, Alignment, Delimiter,
+  ColumnSetting, SortKey, FilterRule, FooterPlacement, SummaryFunction, ColumnNumberFormat, DateFormat,
+  ConditionalRule, ColorScale, DataBar, HighlightGroup, StyleOptions, CustomTheme, SlideArea, PasteTarget,
+} from './types';
 
 /** ローカルストレージのキー */
 const STORAGE_KEY = 'formatTableForSlides';
@@ -10,6 +14,8 @@ const STORAGE_KEY = 'formatTableForSlides';
 /** 保存するデータの構造 */
 interface StoredData {
   input: string;
+  /** 表を貼り付けた際の元のHTML（書式・結合の復元用） */
+  inputHtml?: string;
   options: AllOptions;
 }
 
@@ -18,34 +24,93 @@ const DEFAULT_OPTIONS: AllOptions = {
   layout: {
     splitColumns: 1,
     separatorType: 'column',
+    fillOrder: 'down',
+    rowsPerBlock: 10,
+    maxRowsPerSlide: 0,
+    footerPlacement: 'last',
+    fitToSlide: false,
+    slideArea: {
+      preset: '16:9',
+      width: 33.867,
+      height: 19.05,
+      unit: 'cm',
+      margin: 1.27,
+    },
   },
   style: {
     theme: 'standard-blue',
+    customThemes: [],
+    fontSize: 0,
     zebra: true,
     density: 'standard',
-    highlightWords: [],
-    highlightPreset: 'yellow',
-    highlightCustomColor: '#FFFF99',
+    highlightGroups: [{
+      words: [],
+      preset: 'yellow',
+      customColor: '#FFFF99',
+      matchMode: 'exact',
+      caseSensitive: false,
+      scope: 'cell',
+    }],
+    columnAlignments: {},
+    maxColumnWidth: 0,
+    columnMaxWidths: {},
+    keepSourceFormatting: true,
+    autoMergeColumns: [],
+    conditionalRules: [],
+    colorScales: [],
+    dataBars: [],
   },
   format: {
+    transpose: false,
     addNumbers: false,
     formatNumbers: true,
+    groupBy: null,
+    groupSubtotals: false,
+    restartNumbering: false,
+    summary: null,
+    numberFormats: [],
+    dateFormat: 'keep',
+    dateWeekday: false,
+  },
+  image: {
+    scale: 2,
+    transparent: false,
+    copyImage: false,
   },
   hasHeader: true,
+  delimiter: 'auto',
+  columns: [],
+  sort: [],
+  filters: [],
+  pasteTarget: 'powerpoint',
 };
 
 /**
  * データをローカルストレージに保存
+ * 容量を超えた場合は、貼り付けたHTMLを除いて入力とオプションだけでも保存する
  */
-export function saveData(input: string, options: AllOptions): void {
+export function saveData(input: string, options: AllOptions, inputHtml?: string): void {
   try {
-    const data: StoredData = { input, options };
+    const data: StoredData = { input, inputHtml, options };
     localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
   } catch (error) {
+    if (inputHtml !== undefined && isQuotaExceededError(error)) {
+      console.warn('localStorage quota exceeded, saving without pasted HTML:', error);
+      saveData(input, options);
+      return;
+    }
     console.warn('Failed to save data to localStorage:', error);
   }
 }
 
+/**
+ * ローカルストレージの容量超過によるエラーか
+ */
+function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException
+    && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
 /**
  * ローカルストレージからデータを読み込み
  */
@@ -56,10 +121,11 @@ export function loadData(): StoredData | null {
 
     const data = JSON.parse(stored) as Partial<StoredData>;
     
-    // データの妥当性チェックと補完
+    // データの妥当性チェックと補完（旧形式の設定は現在の形式に移行）
     return {
       input: typeof data.input === 'string' ? data.input : '',
-      options: mergeWithDefaults(data.options),
+      inputHtml: typeof data.inputHtml === 'string' ? data.inputHtml : undefined,
+      options: mergeWithDefaults(migrateLegacyOptions(data.options)),
     };
   } catch (error) {
     console.warn('Failed to load data from localStorage:', error);
@@ -67,12 +133,52 @@ export function loadData(): StoredData | null {
   }
 }
 
+/** 旧形式のハイライト設定（単一の単語リストと色） */
+interface LegacyHighlightOptions {
+  highlightWords?: unknown;
+  highlightPreset?: unknown;
+  highlightCustomColor?: unknown;
+}
+
+/**
+ * 旧形式の設定を現在の形式に移行
+ * 単一のハイライト単語リストは、完全一致・セル単位のハイライトグループ1つに変換する
+ */
+function migrateLegacyOptions(options?: Partial<AllOptions>): Partial<AllOptions> | undefined {
+  const style = options?.style as (Partial<StyleOptions> & LegacyHighlightOptions) | undefined;
+  if (!options || !style || style.highlightGroups !== undefined || !Array.isArray(style.highlightWords)) {
+    return options;
+  }
+
+  const { highlightWords, highlightPreset, highlightCustomColor, ...rest } = style;
+  const group: HighlightGroup = {
+    ...DEFAULT_OPTIONS.style.highlightGroups[0],
+    words: highlightWords.filter((word): word is string => typeof word === 'string'),
+  };
+  if (isValidHighlightPreset(highlightPreset)) {
+    group.preset = highlightPreset;
+  }
+  if (typeof highlightCustomColor === 'string') {
+    group.customColor = highlightCustomColor;
+  }
+
+  return {
+    ...options,
+    style: { ...rest, highlightGroups: [group] } as StyleOptions,
+  };
+}
+
 /**
  * 保存データとデフォルト値をマージ（欠損値を補完）
  */
 function mergeWithDefaults(options?: Partial<AllOptions>): AllOptions {
   if (!options) return { ...DEFAULT_OPTIONS };
 
+  // テーマ名の検証にカスタムテーマを使うため先に解決
+  const customThemes = isValidCustomThemes(options.style?.customThemes)
+    ? options.style!.customThemes
+    : DEFAULT_OPTIONS.style.customThemes;
+
   return {
     layout: {
       splitColumns: isValidSplitColumns(options.layout?.splitColumns)
@@ -81,38 +187,128 @@ function mergeWithDefaults(options?: Partial<AllOptions>): AllOptions {
       separatorType: isValidSeparatorType(options.layout?.separatorType)
         ? options.layout!.separatorType
         : DEFAULT_OPTIONS.layout.separatorType,
+      fillOrder: isValidFillOrder(options.layout?.fillOrder)
+        ? options.layout!.fillOrder
+        : DEFAULT_OPTIONS.layout.fillOrder,
+      rowsPerBlock: isValidRowsPerBlock(options.layout?.rowsPerBlock)
+        ? options.layout!.rowsPerBlock
+        : DEFAULT_OPTIONS.layout.rowsPerBlock,
+      maxRowsPerSlide: isValidMaxRowsPerSlide(options.layout?.maxRowsPerSlide)
+        ? options.layout!.maxRowsPerSlide
+        : DEFAULT_OPTIONS.layout.maxRowsPerSlide,
+      footerPlacement: isValidFooterPlacement(options.layout?.footerPlacement)
+        ? options.layout!.footerPlacement
+        : DEFAULT_OPTIONS.layout.footerPlacement,
+      fitToSlide: typeof options.layout?.fitToSlide === 'boolean'
+        ? options.layout.fitToSlide
+        : DEFAULT_OPTIONS.layout.fitToSlide,
+      slideArea: isValidSlideArea(options.layout?.slideArea)
+        ? options.layout!.slideArea
+        : DEFAULT_OPTIONS.layout.slideArea,
     },
     style: {
-      theme: isValidTheme(options.style?.theme)
+      theme: isValidTheme(options.style?.theme, customThemes)
         ? options.style!.theme
         : DEFAULT_OPTIONS.style.theme,
+      customThemes,
+      fontSize: isValidFontSize(options.style?.fontSize)
+        ? options.style!.fontSize
+        : DEFAULT_OPTIONS.style.fontSize,
       zebra: typeof options.style?.zebra === 'boolean'
         ? options.style.zebra
         : DEFAULT_OPTIONS.style.zebra,
       density: isValidDensity(options.style?.density)
         ? options.style!.density
         : DEFAULT_OPTIONS.style.density,
-      highlightWords: Array.isArray(options.style?.highlightWords)
-        ? options.style!.highlightWords
-        : DEFAULT_OPTIONS.style.highlightWords,
-      highlightPreset: isValidHighlightPreset(options.style?.highlightPreset)
-        ? options.style!.highlightPreset
-        : DEFAULT_OPTIONS.style.highlightPreset,
-      highlightCustomColor: typeof options.style?.highlightCustomColor === 'string'
-        ? options.style.highlightCustomColor
-        : DEFAULT_OPTIONS.style.highlightCustomColor,
+      highlightGroups: isValidHighlightGroups(options.style?.highlightGroups)
+        ? options.style!.highlightGroups
+        : DEFAULT_OPTIONS.style.highlightGroups,
+      columnAlignments: isValidColumnAlignments(options.style?.columnAlignments)
+        ? options.style!.columnAlignments
+        : DEFAULT_OPTIONS.style.columnAlignments,
+      maxColumnWidth: isValidMaxColumnWidth(options.style?.maxColumnWidth)
+        ? options.style!.maxColumnWidth
+        : DEFAULT_OPTIONS.style.maxColumnWidth,
+      columnMaxWidths: isValidColumnMaxWidths(options.style?.columnMaxWidths)
+        ? options.style!.columnMaxWidths
+        : DEFAULT_OPTIONS.style.columnMaxWidths,
+      keepSourceFormatting: typeof options.style?.keepSourceFormatting === 'boolean'
+        ? options.style.keepSourceFormatting
+        : DEFAULT_OPTIONS.style.keepSourceFormatting,
+      autoMergeColumns: isValidColumnIndexes(options.style?.autoMergeColumns)
+        ? options.style!.autoMergeColumns
+        : DEFAULT_OPTIONS.style.autoMergeColumns,
+      conditionalRules: isValidConditionalRules(options.style?.conditionalRules)
+        ? options.style!.conditionalRules
+        : DEFAULT_OPTIONS.style.conditionalRules,
+      colorScales: isValidColorScales(options.style?.colorScales)
+        ? options.style!.colorScales
+        : DEFAULT_OPTIONS.style.colorScales,
+      dataBars: isValidDataBars(options.style?.dataBars)
+        ? options.style!.dataBars
+        : DEFAULT_OPTIONS.style.dataBars,
     },
     format: {
+      transpose: typeof options.format?.transpose === 'boolean'
+        ? options.format.transpose
+        : DEFAULT_OPTIONS.format.transpose,
       addNumbers: typeof options.format?.addNumbers === 'boolean'
         ? options.format.addNumbers
         : DEFAULT_OPTIONS.format.addNumbers,
       formatNumbers: typeof options.format?.formatNumbers === 'boolean'
         ? options.format.formatNumbers
         : DEFAULT_OPTIONS.format.formatNumbers,
+      groupBy: options.format?.groupBy === null || isValidColumnIndex(options.format?.groupBy)
+        ? options.format!.groupBy
+        : DEFAULT_OPTIONS.format.groupBy,
+      groupSubtotals: typeof options.format?.groupSubtotals === 'boolean'
+        ? options.format.groupSubtotals
+        : DEFAULT_OPTIONS.format.groupSubtotals,
+      restartNumbering: typeof options.format?.restartNumbering === 'boolean'
+        ? options.format.restartNumbering
+        : DEFAULT_OPTIONS.format.restartNumbering,
+      summary: options.format?.summary === null || isValidSummaryFunction(options.format?.summary)
+        ? options.format!.summary
+        : DEFAULT_OPTIONS.format.summary,
+      numberFormats: isValidNumberFormats(options.format?.numberFormats)
+        ? options.format!.numberFormats
+        : DEFAULT_OPTIONS.format.numberFormats,
+      dateFormat: isValidDateFormat(options.format?.dateFormat)
+        ? options.format!.dateFormat
+        : DEFAULT_OPTIONS.format.dateFormat,
+      dateWeekday: typeof options.format?.dateWeekday === 'boolean'
+        ? options.format.dateWeekday
+        : DEFAULT_OPTIONS.format.dateWeekday,
+    },
+    image: {
+      scale: isValidImageScale(options.image?.scale)
+        ? options.image!.scale
+        : DEFAULT_OPTIONS.image.scale,
+      transparent: typeof options.image?.transparent === 'boolean'
+        ? options.image.transparent
+        : DEFAULT_OPTIONS.image.transparent,
+      copyImage: typeof options.image?.copyImage === 'boolean'
+        ? options.image.copyImage
+        : DEFAULT_OPTIONS.image.copyImage,
     },
     hasHeader: typeof options.hasHeader === 'boolean'
       ? options.hasHeader
       : DEFAULT_OPTIONS.hasHeader,
+    delimiter: isValidDelimiter(options.delimiter)
+      ? options.delimiter
+      : DEFAULT_OPTIONS.delimiter,
+    columns: isValidColumnSettings(options.columns)
+      ? options.columns
+      : DEFAULT_OPTIONS.columns,
+    sort: isValidSortKeys(options.sort)
+      ? options.sort
+      : DEFAULT_OPTIONS.sort,
+    filters: isValidFilterRules(options.filters)
+      ? options.filters
+      : DEFAULT_OPTIONS.filters,
+    pasteTarget: isValidPasteTarget(options.pasteTarget)
+      ? options.pasteTarget
+      : DEFAULT_OPTIONS.pasteTarget,
   };
 }
 
@@ -125,18 +321,214 @@ function isValidSeparatorType(value: unknown): value is 'column' | 'border' {
   return value === 'column' || value === 'border';
 }
 
-function isValidTheme(value: unknown): value is ThemeName {
+function isValidFillOrder(value: unknown): value is FillOrder {
+  return ['down', 'across', 'balanced', 'fixed-rows'].includes(value as string);
+}
+
+function isValidRowsPerBlock(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+function isValidMaxRowsPerSlide(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isValidFooterPlacement(value: unknown): value is FooterPlacement {
+  return value === 'last' || value === 'every';
+}
+
+function isValidSlideArea(value: unknown): value is SlideArea {
+  if (typeof value !== 'object' || value === null) return false;
+  const area = value as Record<string, unknown>;
+  const isPositive = (size: unknown) => typeof size === 'number' && Number.isFinite(size) && size > 0;
+  return ['16:9', '4:3', 'custom'].includes(area.preset as string)
+    && isPositive(area.width)
+    && isPositive(area.height)
+    && (area.unit === 'px' || area.unit === 'cm')
+    && typeof area.margin === 'number' && Number.isFinite(area.margin) && area.margin >= 0;
+}
+
+function isValidFontSize(value: unknown): value is number {
+  return value === 0 || (typeof value === 'number' && value >= 8 && value <= 48);
+}
+
+function isValidSummaryFunction(value: unknown): value is SummaryFunction {
+  return ['sum', 'average', 'count', 'min', 'max'].includes(value as string);
+}
+
+function isValidDateFormat(value: unknown): value is DateFormat {
+  return ['keep', 'YYYY/MM/DD', 'YYYY-MM-DD', 'YYYY/M/D', 'M/D', 'YYYY年M月D日', 'M月D日', 'era'].includes(value as string);
+}
+
+function isBuiltinThemeName(value: unknown): value is ThemeName {
   return ['standard-blue', 'dark-gray', 'minimal', 'accent-green'].includes(value as string);
 }
 
+/**
+ * 組み込みテーマ名、または保存済みのカスタムテーマ名か
+ */
+export function isValidTheme(value: unknown, customThemes: CustomTheme[] = []): value is string {
+  return isBuiltinThemeName(value) || customThemes.some(theme => theme.name === value);
+}
+
+/**
+ * カスタムテーマの一覧として正しいか（名前は空でなく、組み込みテーマ名・互いと重複しない）
+ */
+export function isValidCustomThemes(value: unknown): value is CustomTheme[] {
+  if (!Array.isArray(value)) return false;
+  const names = new Set<string>();
+  return value.every(theme => {
+    if (typeof theme !== 'object' || theme === null) return false;
+    if (typeof theme.name !== 'string' || theme.name.trim() === '') return false;
+    if (isBuiltinThemeName(theme.name) || names.has(theme.name)) return false;
+    names.add(theme.name);
+    return ['headerBg', 'headerText', 'zebraEven', 'zebraOdd', 'borderColor', 'headerBorderColor', 'separatorColor']
+      .every(key => isValidHexColor(theme[key]))
+      && isValidBorderWidth(theme.borderWidth)
+      && isValidBorderWidth(theme.headerBorderWidth)
+      && isValidFontFamily(theme.fontFamily)
+      && typeof theme.fontSize === 'number' && theme.fontSize >= 8 && theme.fontSize <= 48;
+  });
+}
+
+/**
+ * フォント指定（HTMLの属性に埋め込むため、二重引用符・山括弧は使えない）
+ */
+function isValidFontFamily(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '' && !/["<>]/.test(value);
+}
+
+function isValidBorderWidth(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 10;
+}
+
 function isValidDensity(value: unknown): value is Density {
   return ['comfortable', 'standard', 'compact', 'extra-comfortable', 'extra-compact'].includes(value as string);
 }
 
+function isValidHighlightGroups(value: unknown): value is HighlightGroup[] {
+  return Array.isArray(value) && value.every(group =>
+    typeof group === 'object' && group !== null
+    && Array.isArray(group.words) && group.words.every((word: unknown) => typeof word === 'string')
+    && isValidHighlightPreset(group.preset)
+    && typeof group.customColor === 'string'
+    && ['exact', 'contains', 'regex'].includes(group.matchMode)
+    && typeof group.caseSensitive === 'boolean'
+    && ['cell', 'row', 'column'].includes(group.scope)
+  );
+}
+
 function isValidHighlightPreset(value: unknown): value is HighlightPreset {
   return ['yellow', 'green', 'pink', 'blue', 'orange', 'custom'].includes(value as string);
 }
 
+function isValidColumnAlignments(value: unknown): value is Record<string, Alignment> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  return Object.values(value).every(alignment => ['left', 'center', 'right'].includes(alignment as string));
+}
+
+function isValidMaxColumnWidth(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 2000;
+}
+
+function isValidColumnMaxWidths(value: unknown): value is Record<string, number> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  return Object.values(value).every(width => isValidMaxColumnWidth(width) && width > 0);
+}
+
+function isValidColumnIndex(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isValidColumnIndexes(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(isValidColumnIndex);
+}
+
+function isValidHexColor(value: unknown): value is string {
+  return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+function isValidConditionalRules(value: unknown): value is ConditionalRule[] {
+  return Array.isArray(value) && value.every(rule =>
+    typeof rule === 'object' && rule !== null
+    && isValidColumnIndex(rule.column)
+    && ['greater', 'less', 'between', 'top', 'bottom', 'contains', 'regex'].includes(rule.operator)
+    && typeof rule.value === 'string'
+    && typeof rule.value2 === 'string'
+    && typeof rule.bold === 'boolean'
+    && (rule.color === '' || isValidHexColor(rule.color))
+    && (rule.backgroundColor === '' || isValidHexColor(rule.backgroundColor))
+  );
+}
+
+function isValidColorScales(value: unknown): value is ColorScale[] {
+  return Array.isArray(value) && value.every(scale =>
+    typeof scale === 'object' && scale !== null
+    && isValidColumnIndex(scale.column)
+    && Array.isArray(scale.colors)
+    && (scale.colors.length === 2 || scale.colors.length === 3)
+    && scale.colors.every(isValidHexColor)
+  );
+}
+
+function isValidDataBars(value: unknown): value is DataBar[] {
+  return Array.isArray(value) && value.every(bar =>
+    typeof bar === 'object' && bar !== null
+    && isValidColumnIndex(bar.column)
+    && isValidHexColor(bar.color)
+  );
+}
+
+function isValidColumnSettings(value: unknown): value is ColumnSetting[] {
+  return Array.isArray(value) && value.every(setting =>
+    typeof setting === 'object' && setting !== null
+    && isValidColumnIndex(setting.index)
+    && typeof setting.header === 'string'
+    && typeof setting.label === 'string'
+    && typeof setting.visible === 'boolean'
+  );
+}
+
+function isValidSortKeys(value: unknown): value is SortKey[] {
+  return Array.isArray(value) && value.every(key =>
+    typeof key === 'object' && key !== null
+    && isValidColumnIndex(key.column)
+    && ['asc', 'desc'].includes(key.direction)
+  );
+}
+
+function isValidFilterRules(value: unknown): value is FilterRule[] {
+  return Array.isArray(value) && value.every(rule =>
+    typeof rule === 'object' && rule !== null
+    && isValidColumnIndex(rule.column)
+    && ['equals', 'contains', 'greater', 'less', 'top'].includes(rule.operator)
+    && typeof rule.value === 'string'
+  );
+}
+
+function isValidNumberFormats(value: unknown): value is ColumnNumberFormat[] {
+  return Array.isArray(value) && value.every(format =>
+    typeof format === 'object' && format !== null
+    && isValidColumnIndex(format.column)
+    && (format.decimals === null || (Number.isInteger(format.decimals) && format.decimals >= 0 && format.decimals <= 20))
+    && ['none', 'thousand', 'ten-thousand', 'hundred-million'].includes(format.unit)
+    && ['keep', 'none', 'percent', 'yen', 'dollar', 'euro'].includes(format.symbol)
+    && ['keep', 'minus', 'triangle', 'parentheses', 'red'].includes(format.negative)
+  );
+}
+
+function isValidDelimiter(value: unknown): value is Delimiter {
+  return ['auto', 'tab', 'comma', 'semicolon', 'pipe', 'whitespace'].includes(value as string);
+}
+
+function isValidPasteTarget(value: unknown): value is PasteTarget {
+  return ['powerpoint', 'google-slides', 'keynote', 'excel'].includes(value as string);
+}
+
+function isValidImageScale(value: unknown): value is ImageScale {
+  return [1, 2, 3].includes(value as number);
+}
+
 /**
  * ローカルストレージをクリア
  */
@@ -0,0 +1,107 @@
+/**
+ * 集計 - 数値列の合計・平均・件数・最小・最大と集計行（フッター）
+ */
+
+import type { TableData, SummaryFunction } from './types';
+import type { ParsedNumber } from './numbers';
+import { getColumnSources, isNumeric, detectColumnTypes, NUMBER_COLUMN_SOURCE } from './formatter';
+import { getRowKind } from './table';
+import { parseNumericValue } from './numbers';
+
+/** 集計行の見出し */
+export const SUMMARY_LABELS: Record<SummaryFunction, string> = {
+  sum: '合計',
+  average: '平均',
+  count: '件数',
+  min: '最小',
+  max: '最大',
+};
+
+/** 平均の小数桁数の上限 */
+const AVERAGE_MAX_DECIMALS = 2;
+
+/**
+ * 数値列（空でない値がすべて数値の列）を取得
+ * 連番列・日付列と、グループ見出し・小計行の値は対象外
+ */
+export function getNumericColumns(data: TableData): number[] {
+  const sources = getColumnSources(data);
+  const columnTypes = detectColumnTypes(data);
+  const dataRows = data.rows.filter((_, rowIndex) => getRowKind(data, rowIndex) === 'data');
+
+  return data.headers
+    .map((_, col) => col)
+    .filter(col => {
+      if (sources[col] === NUMBER_COLUMN_SOURCE || columnTypes[col] === 'date') return false;
+      const values = dataRows.map(row => row[col] ?? '').filter(value => value.trim() !== '');
+      return values.length > 0 && values.every(isNumeric);
+    });
+}
+
+/**
+ * 数値文字列を集計（結果は3桁区切りなしの数値文字列）
+ * 合計・最小・最大は値の最大の小数桁数に揃え、すべての値に共通する記号（¥・% など）は結果にも付ける
+ */
+export function summarizeValues(values: string[], summary: SummaryFunction): string {
+  const numbers = values
+    .map(value => parseNumericValue(value))
+    .filter((parsed): parsed is ParsedNumber => parsed !== null);
+  if (summary === 'count') {
+    return String(numbers.length);
+  }
+  if (numbers.length === 0) {
+    return '';
+  }
+
+  // 記号が共通する場合だけ、入力と同じ表記（% は百分率の値）で集計する
+  const prefix = numbers.every(parsed => parsed.prefix === numbers[0].prefix) ? numbers[0].prefix : '';
+  const suffix = numbers.every(parsed => parsed.suffix === numbers[0].suffix) ? numbers[0].suffix : '';
+  const scale = suffix === '%' ? 100 : 1;
+  const decimals = Math.max(...numbers.map(parsed => parsed.decimals));
+  const parsed = numbers.map(number => number.value * scale);
+  const total = parsed.reduce((sum, value) => sum + value, 0);
+
+  let result: string;
+  switch (summary) {
+    case 'average':
+      result = String(Number((total / parsed.length).toFixed(AVERAGE_MAX_DECIMALS)));
+      break;
+    case 'min':
+      result = Math.min(...parsed).toFixed(decimals);
+      break;
+    case 'max':
+      result = Math.max(...parsed).toFixed(decimals);
+      break;
+    default:
+      result = total.toFixed(decimals);
+  }
+
+  // 負数は記号の前に符号を置く
+  return result.startsWith('-')
+    ? `-${prefix}${result.slice(1)}${suffix}`
+    : `${prefix}${result}${suffix}`;
+}
+
+/**
+ * 分割前のデータから集計行を作成（見出しは数値列でない最初の列に置く）
+ */
+export function addSummaryFooter(data: TableData, summary: SummaryFunction): TableData {
+  const numericColumns = new Set(getNumericColumns(data));
+  if (numericColumns.size === 0) {
+    return data;
+  }
+
+  const dataRows = data.rows.filter((_, rowIndex) => getRowKind(data, rowIndex) === 'data');
+  const footer = data.headers.map((_, col) =>
+    numericColumns.has(col) ? summarizeValues(dataRows.map(row => row[col] ?? ''), summary) : ''
+  );
+  const labelColumn = data.headers.findIndex((_, col) => !numericColumns.has(col));
+  if (labelColumn !== -1) {
+    footer[labelColumn] = SUMMARY_LABELS[summary];
+  }
+
+  return {
+    ...data,
+    footer,
+  };
+}
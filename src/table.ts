@@ -0,0 +1,65 @@
+/**
+ * TableData操作の共通処理 - 行・列の並べ替え・抽出時にセルの付加情報を追従させる
+ */
+
+import type { TableData, CellMeta, RowKind } from './types';
+
+/**
+ * 指定した行インデックスの順に行を取り出す（null は空行）
+ * cellMeta も同じ順に並べ替える
+ */
+export function selectRows(data: TableData, indexes: (number | null)[]): TableData {
+  const emptyRow = () => Array(data.headers.length).fill('');
+  const rows = indexes.map(index => index === null ? emptyRow() : data.rows[index]);
+
+  if (!data.cellMeta) {
+    return { ...data, rows };
+  }
+
+  const cellMeta = indexes.map(index =>
+    index === null ? [] : data.cellMeta![index] || []
+  );
+  return { ...data, rows, cellMeta };
+}
+
+/**
+ * セルの付加情報を取得
+ */
+export function getCellMeta(data: TableData, row: number, col: number): CellMeta | undefined {
+  return data.cellMeta?.[row]?.[col];
+}
+
+/**
+ * 全行の先頭に列を追加したときの付加情報（追加列は付加情報なし）
+ */
+export function prependMetaColumn(data: TableData): Pick<TableData, 'headerMeta' | 'cellMeta'> {
+  return {
+    headerMeta: data.headerMeta ? [undefined, ...data.headerMeta] : undefined,
+    cellMeta: data.cellMeta?.map(row => [undefined, ...(row || [])]),
+  };
+}
+
+/**
+ * 行の種類を取得（グループ見出し・小計はセルの付加情報に記録されている）
+ */
+export function getRowKind(data: TableData, row: number): RowKind {
+  return data.cellMeta?.[row]?.find(meta => meta?.rowKind)?.rowKind ?? 'data';
+}
+
+/**
+ * 指定した列インデックスの順に列を取り出す
+ * 列由来（columnSources）と付加情報も同じ順に並べ替える
+ */
+export function selectColumns(data: TableData, indexes: number[]): TableData {
+  const pick = <T>(values: T[]) => indexes.map(index => values[index]);
+  const sources = data.columnSources ?? data.headers.map((_, index) => index);
+
+  return {
+    ...data,
+    headers: pick(data.headers),
+    rows: data.rows.map(row => pick(row)),
+    columnSources: pick(sources),
+    headerMeta: data.headerMeta ? pick(data.headerMeta) : undefined,
+    cellMeta: data.cellMeta?.map(row => pick(row || [])),
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * カスタムテーマの共有 - JSONへの書き出し・読み込み、PowerPointのテーマファイルからの取り込み
+ */
+
+import type { CustomTheme } from './types';
+import { isValidCustomThemes } from './storage';
+import { DEFAULT_THEME_STYLE, interpolateColors, parseHexColor } from './renderer';
+import { listZipEntries, readZipEntry } from './zip';
+
+/** 書き出すファイルの形式バージョン */
+const THEME_FILE_VERSION = 1;
+
+/** PPTX内のテーマのパス（.thmx は theme/theme/theme1.xml） */
+const THEME_PATH_PATTERN = /(^|\/)theme\/theme\d*\.xml$/;
+
+/** カラースキームの色の名前 */
+const SCHEME_COLOR_NAMES = ['dk1', 'lt1', 'dk2', 'lt2', 'accent1', 'accent2', 'accent3', 'accent4', 'accent5', 'accent6'];
+
+/** ゼブラの淡色（アクセントカラーを白に近づける割合。PowerPointの「白 + 基本色 80%」相当） */
+const ZEBRA_TINT = 0.8;
+
+/** ヘッダーの文字色を濃色にする背景の明るさ（0〜255） */
+const LIGHT_BACKGROUND_THRESHOLD = 160;
+
+/** テーマファイルのカラースキーム */
+interface ColorScheme {
+  name: string;
+  /** 色の名前（dk1・accent1 など）ごとの色（#RRGGBB） */
+  colors: Record<string, string>;
+}
+
+/**
+ * カスタムテーマをJSONとして書き出し
+ */
+export function exportThemes(themes: CustomTheme[]): string {
+  return JSON.stringify({ version: THEME_FILE_VERSION, themes: themes.map(pickTheme) }, null, 2);
+}
+
+/**
+ * JSONからカスタムテーマを読み込む（形式が正しくなければ null）
+ * { themes: [...] } のほか、テーマの配列・単体のテーマも受け付ける
+ */
+export function parseThemes(json: string): CustomTheme[] | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'object' && value !== null && 'themes' in value
+      ? (value as { themes: unknown }).themes
+      : [value];
+  const themes = Array.isArray(items) ? items.map(normalizeThemeFontFamily) : items;
+  if (!isValidCustomThemes(themes) || themes.length === 0) {
+    return null;
+  }
+  return themes.map(pickTheme);
+}
+
+/**
+ * 読み込んだテーマを既存のテーマに統合（同名のテーマは置き換え、新しいテーマは末尾に追加）
+ */
+export function mergeThemes(current: CustomTheme[], imported: CustomTheme[]): CustomTheme[] {
+  const merged = current.map(theme => imported.find(item => item.name === theme.name) ?? theme);
+  const added = imported.filter(theme => !current.some(item => item.name === theme.name));
+  return [...merged, ...added];
+}
+
+/**
+ * PowerPointのテーマファイル（.pptx / .potx / .thmx）からアクセントカラーごとのテーマを生成
+ * テーマが見つからなければ null
+ */
+export async function importPowerPointTheme(bytes: Uint8Array): Promise<CustomTheme[] | null> {
+  const paths = listZipEntries(bytes).filter(path => THEME_PATH_PATTERN.test(path));
+  const path = paths.find(item => item === 'ppt/theme/theme1.xml') ?? paths.sort()[0];
+  if (!path) return null;
+
+  const xml = await readZipEntry(bytes, path);
+  const scheme = xml ? parseColorScheme(new TextDecoder().decode(xml)) : null;
+  return scheme ? buildSchemeThemes(scheme) : null;
+}
+
+/**
+ * テーマXMLからカラースキーム（a:clrScheme）を取り出す
+ * 色は srgbClr の値、システム色（sysClr）は lastClr の値を使う
+ */
+export function parseColorScheme(xml: string): ColorScheme | null {
+  const scheme = /<(?:\w+:)?clrScheme\b([^>]*)>([\s\S]*?)<\/(?:\w+:)?clrScheme>/.exec(xml);
+  if (!scheme) return null;
+
+  const colors: Record<string, string> = {};
+  for (const name of SCHEME_COLOR_NAMES) {
+    const pattern = new RegExp(
+      `<(?:\\w+:)?${name}>\\s*<(?:\\w+:)?(?:srgbClr\\b[^>]*?\\sval|sysClr\\b[^>]*?\\slastClr)="([0-9A-Fa-f]{6})"`
+    );
+    const match = pattern.exec(scheme[2]);
+    if (match) {
+      colors[name] = `#${match[1].toUpperCase()}`;
+    }
+  }
+  if (!SCHEME_COLOR_NAMES.some(name => name.startsWith('accent') && colors[name])) {
+    return null;
+  }
+
+  const name = /\sname="([^"]*)"/.exec(scheme[1])?.[1].trim();
+  return { name: name ? decodeXmlEntities(name) : 'PowerPoint', colors };
+}
+
+/**
+ * カラースキームからアクセントカラーごとのテーマを生成
+ * ヘッダーはアクセントカラー、ゼブラはその淡色、文字色は背景の明るさに応じて濃色（dk1）・淡色（lt1）を選ぶ
+ */
+export function buildSchemeThemes(scheme: ColorScheme): CustomTheme[] {
+  const dark = scheme.colors.dk1 ?? '#000000';
+  const light = scheme.colors.lt1 ?? '#FFFFFF';
+
+  return [1, 2, 3, 4, 5, 6].flatMap(index => {
+    const accent = scheme.colors[`accent${index}`];
+    if (!accent) return [];
+    return [{
+      ...DEFAULT_THEME_STYLE,
+      name: `${scheme.name} アクセント${index}`,
+      headerBg: accent,
+      headerText: getBrightness(accent) >= LIGHT_BACKGROUND_THRESHOLD ? dark : light,
+      zebraEven: interpolateColors([accent, '#FFFFFF'], ZEBRA_TINT),
+      zebraOdd: light,
+      separatorColor: scheme.colors.dk2 ?? DEFAULT_THEME_STYLE.separatorColor,
+    }];
+  });
+}
+
+/**
+ * 色の明るさ（0〜255、人の目の感度で重み付け）
+ */
+function getBrightness(color: string): number {
+  const [red, green, blue] = parseHexColor(color);
+  return (red * 299 + green * 587 + blue * 114) / 1000;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * フォント指定の二重引用符を一重引用符に置き換える（CSSとしては同じ意味）
+ */
+export function normalizeFontFamily(fontFamily: string): string {
+  return fontFamily.replace(/"/g, "'");
+}
+
+function normalizeThemeFontFamily(theme: unknown): unknown {
+  if (typeof theme !== 'object' || theme === null || !('fontFamily' in theme)) return theme;
+  const { fontFamily } = theme as { fontFamily: unknown };
+  return typeof fontFamily === 'string' ? { ...theme, fontFamily: normalizeFontFamily(fontFamily) } : theme;
+}
+
+/**
+ * テーマの項目だけを取り出す（余分なキーは保存しない）
+ */
+function pickTheme(theme: CustomTheme): CustomTheme {
+  return {
+    name: theme.name,
+    headerBg: theme.headerBg,
+    headerText: theme.headerText,
+    zebraEven: theme.zebraEven,
+    zebraOdd: theme.zebraOdd,
+    borderColor: theme.borderColor,
+    borderWidth: theme.borderWidth,
+    headerBorderColor: theme.headerBorderColor,
+    headerBorderWidth: theme.headerBorderWidth,
+    fontFamily: theme.fontFamily,
+    fontSize: theme.fontSize,
+    separatorColor: theme.separatorColor,
+  };
+}
@@ -1,52 +1,173 @@
 /**
- * 段組み変換ロジック (Down-then-Across)
+ * 段組み変換ロジック (Down-then-Across / Across-then-Down / 均等配分 / 行数固定)
  */
 
-import type { TableData, LayoutOptions } from './types';
+import type { TableData, LayoutOptions, CellMeta } from './types';
+import { getColumnSources } from './formatter';
+import { selectRows, getRowKind } from './table';
+
+/** 区切り列の列由来（元データに存在しない列） */
+export const SEPARATOR_COLUMN_SOURCE = -2;
 
 /**
- * データを指定した分割数で段組みに変換
- * Down-then-Across: 上から下、次に右へ
+ * 行と列を入れ替える
+ * ヘッダーありの場合、元のヘッダー行は先頭列になり、元の先頭列が新しいヘッダーになる
  */
-export function splitColumns(data: TableData, columns: number): TableData[] {
-  if (columns <= 1 || data.rows.length === 0) {
-    return [data];
+export function transpose(data: TableData): TableData {
+  const matrix = data.hasHeader ? [data.headers, ...data.rows] : data.rows;
+  if (matrix.length === 0) {
+    return data;
+  }
+
+  const columnCount = Math.max(...matrix.map(row => row.length));
+  const transposed = Array.from({ length: columnCount }, (_, col) =>
+    matrix.map(row => row[col] ?? '')
+  );
+
+  // セルの付加情報も同じように入れ替える
+  let headerMeta: (CellMeta | undefined)[] | undefined;
+  let cellMeta: (CellMeta | undefined)[][] | undefined;
+  if (data.headerMeta || data.cellMeta) {
+    const metaMatrix = data.hasHeader
+      ? [data.headerMeta || [], ...data.rows.map((_, i) => data.cellMeta?.[i] || [])]
+      : data.rows.map((_, i) => data.cellMeta?.[i] || []);
+    const transposedMeta = Array.from({ length: columnCount }, (_, col) =>
+      metaMatrix.map(row => row[col])
+    );
+    headerMeta = data.hasHeader ? transposedMeta[0] : undefined;
+    cellMeta = data.hasHeader ? transposedMeta.slice(1) : transposedMeta;
+  }
+
+  if (data.hasHeader) {
+    return {
+      headers: transposed[0],
+      rows: transposed.slice(1),
+      hasHeader: true,
+      headerMeta,
+      cellMeta,
+    };
+  }
+
+  return {
+    headers: Array(matrix.length).fill(''),
+    rows: transposed,
+    hasHeader: false,
+    cellMeta,
+  };
+}
+
+/**
+ * 各ブロックに配置する元データの行インデックスを計算
+ * 配置順（fillOrder）に応じて行の割り当てを決定する
+ */
+export function getBlockRowIndexes(totalRows: number, options: LayoutOptions): number[][] {
+  const allIndexes = Array.from({ length: totalRows }, (_, i) => i);
+
+  if (options.fillOrder === 'fixed-rows') {
+    // 行数固定: ブロック数は行数から決まる
+    const rowsPerBlock = Math.max(1, options.rowsPerBlock);
+    const blockCount = Math.max(1, Math.ceil(totalRows / rowsPerBlock));
+    return Array.from({ length: blockCount }, (_, block) =>
+      allIndexes.slice(block * rowsPerBlock, (block + 1) * rowsPerBlock)
+    );
+  }
+
+  const columns = Math.max(1, options.splitColumns);
+  if (columns === 1) {
+    return [allIndexes];
   }
 
-  const totalRows = data.rows.length;
-  const rowsPerColumn = Math.ceil(totalRows / columns);
-  const blocks: TableData[] = [];
-
-  for (let col = 0; col < columns; col++) {
-    const startIndex = col * rowsPerColumn;
-    const endIndex = Math.min(startIndex + rowsPerColumn, totalRows);
-    
-    if (startIndex >= totalRows) {
-      // 空のブロック（データが足りない場合）
-      blocks.push({
-        headers: data.headers,
-        rows: Array(rowsPerColumn).fill(null).map(() => 
-          Array(data.headers.length).fill('')
-        ),
-        hasHeader: data.hasHeader,
-      });
-    } else {
-      const blockRows = data.rows.slice(startIndex, endIndex);
-      
-      // 行数を揃える
-      while (blockRows.length < rowsPerColumn) {
-        blockRows.push(Array(data.headers.length).fill(''));
+  switch (options.fillOrder) {
+    case 'across': {
+      // Across-then-Down: 左から右、次に下へ
+      return Array.from({ length: columns }, (_, block) =>
+        allIndexes.filter(i => i % columns === block)
+      );
+    }
+    case 'balanced': {
+      // 端数行を先頭のブロックから1行ずつ配分
+      const baseRows = Math.floor(totalRows / columns);
+      const remainder = totalRows % columns;
+      const blocks: number[][] = [];
+      let startIndex = 0;
+      for (let block = 0; block < columns; block++) {
+        const count = baseRows + (block < remainder ? 1 : 0);
+        blocks.push(allIndexes.slice(startIndex, startIndex + count));
+        startIndex += count;
       }
+      return blocks;
+    }
+    default: {
+      // Down-then-Across: 上から下、次に右へ
+      const rowsPerColumn = Math.ceil(totalRows / columns);
+      return Array.from({ length: columns }, (_, block) =>
+        allIndexes.slice(block * rowsPerColumn, (block + 1) * rowsPerColumn)
+      );
+    }
+  }
+}
 
-      blocks.push({
-        headers: data.headers,
-        rows: blockRows,
-        hasHeader: data.hasHeader,
-      });
+/**
+ * データを配置順に従ってブロックに分割
+ */
+export function splitColumns(data: TableData, options: LayoutOptions): TableData[] {
+  const isSingleBlock = options.fillOrder === 'fixed-rows'
+    ? data.rows.length <= options.rowsPerBlock
+    : options.splitColumns <= 1;
+  if (isSingleBlock || data.rows.length === 0) {
+    return [data];
+  }
+
+  const sequence = arrangeGroupRows(data, options);
+  const blockRowIndexes = getBlockRowIndexes(sequence.length, options)
+    .map(positions => positions.map(position => sequence[position]));
+  const rowsPerBlock = Math.max(...blockRowIndexes.map(indexes => indexes.length));
+
+  return blockRowIndexes.map((indexes, blockIndex, blocks) => {
+    const blockRowIndexes = [...indexes];
+
+    // 行数を揃える（データが足りない場合は空行で埋める）
+    while (blockRowIndexes.length < rowsPerBlock) {
+      blockRowIndexes.push(null);
     }
+
+    const block = selectRows(data, blockRowIndexes);
+    const isLastBlock = blockIndex === blocks.length - 1;
+    return options.footerPlacement === 'last' && !isLastBlock ? withoutFooter(block) : block;
+  });
+}
+
+/**
+ * ブロックに流し込む行の並びを求める（null は空行）
+ * グループ見出し行がブロックの最下行に取り残される場合は、直前に空行を挟んで次のブロックへ送る
+ * 横方向の配置（across）は連続する行が別のブロックに入るため対象外
+ */
+function arrangeGroupRows(data: TableData, options: LayoutOptions): (number | null)[] {
+  let sequence: (number | null)[] = data.rows.map((_, index) => index);
+  const isGroupRow = (index: number | null) => index !== null && getRowKind(data, index) === 'group';
+  if (options.fillOrder === 'across' || !sequence.some(isGroupRow)) {
+    return sequence;
   }
 
-  return blocks;
+  // 空行を挟むとブロックの行数が変わり得るため、取り残しがなくなるまで繰り返す
+  for (let attempt = 0; attempt < data.rows.length; attempt++) {
+    const orphan = getBlockRowIndexes(sequence.length, options)
+      .map(positions => positions[positions.length - 1])
+      .find(position =>
+        position !== undefined && position < sequence.length - 1 && isGroupRow(sequence[position])
+      );
+    if (orphan === undefined) break;
+    sequence = [...sequence.slice(0, orphan), null, ...sequence.slice(orphan)];
+  }
+
+  return sequence;
+}
+
+/**
+ * 集計行を除く（集計行を最後のブロックにだけ表示する場合に使用）
+ */
+function withoutFooter(data: TableData): TableData {
+  return data.footer ? { ...data, footer: undefined, footerMeta: undefined } : data;
 }
 
 /**
@@ -69,16 +190,29 @@ export function mergeBlocks(
   const mergedHeaders: string[] = [];
   const rowCount = Math.max(...blocks.map(b => b.rows.length));
   const mergedRows: string[][] = Array(rowCount).fill(null).map(() => []);
+  const hasMeta = blocks.some(block => block.cellMeta || block.headerMeta);
+  const mergedHeaderMeta: (CellMeta | undefined)[] = [];
+  const mergedCellMeta: (CellMeta | undefined)[][] = Array(rowCount).fill(null).map(() => []);
+  const columnSources: number[] = [];
   const separatorColumns: number[] = [];
   const borderBoundaries: number[] = []; // 罫線を引く列（右側に罫線）
+  const blockStarts: number[] = [];
+  const hasFooter = blocks.some(block => block.footer);
+  const mergedFooter: (string | null)[] = [];
+  const mergedFooterMeta: (CellMeta | undefined)[] = [];
 
   blocks.forEach((block, blockIndex) => {
     // ブロック間に区切り列を追加
     if (blockIndex > 0 && addSeparatorColumn) {
       separatorColumns.push(mergedHeaders.length);
       mergedHeaders.push('');
+      columnSources.push(SEPARATOR_COLUMN_SOURCE);
+      mergedHeaderMeta.push(undefined);
+      mergedFooter.push(null);
+      mergedFooterMeta.push(undefined);
       for (let i = 0; i < rowCount; i++) {
         mergedRows[i].push('');
+        mergedCellMeta[i].push(undefined);
       }
     }
 
@@ -88,21 +222,42 @@ export function mergeBlocks(
     }
 
     // ヘッダーを追加
+    blockStarts.push(mergedHeaders.length);
     mergedHeaders.push(...block.headers);
+    columnSources.push(...getColumnSources(block));
 
     // 行を追加
     for (let i = 0; i < rowCount; i++) {
       const row = block.rows[i] || Array(block.headers.length).fill('');
       mergedRows[i].push(...row);
     }
+
+    // 集計行を追加（集計行のないブロックは空欄）
+    mergedFooter.push(...(block.footer ?? Array(block.headers.length).fill(null)));
+
+    // セルの付加情報を列位置に合わせて追加
+    for (let col = 0; col < block.headers.length; col++) {
+      mergedHeaderMeta.push(block.headerMeta?.[col]);
+      mergedFooterMeta.push(block.footerMeta?.[col]);
+      for (let i = 0; i < rowCount; i++) {
+        mergedCellMeta[i].push(block.cellMeta?.[i]?.[col]);
+      }
+    }
   });
 
   return {
+    ...blocks[0],
     headers: mergedHeaders,
     rows: mergedRows,
     hasHeader: blocks[0].hasHeader,
+    columnSources,
+    headerMeta: hasMeta ? mergedHeaderMeta : undefined,
+    cellMeta: hasMeta ? mergedCellMeta : undefined,
+    footer: hasFooter ? mergedFooter : undefined,
+    footerMeta: hasFooter && blocks.some(block => block.footerMeta) ? mergedFooterMeta : undefined,
     separatorColumns: separatorColumns.length > 0 ? separatorColumns : undefined,
     borderBoundaries: borderBoundaries.length > 0 ? borderBoundaries : undefined,
+    blockStarts,
   };
 }
 
@@ -113,6 +268,67 @@ export function transformLayout(
   data: TableData,
   options: LayoutOptions
 ): TableData {
-  const blocks = splitColumns(data, options.splitColumns);
+  const blocks = splitColumns(data, options);
   return mergeBlocks(blocks, options);
 }
+
+/**
+ * 1ページ（スライド）分のレイアウト設定と収容件数を計算
+ * ページ分割が無効な場合、収容件数は無制限（Infinity）
+ */
+export function getPageLayout(options: LayoutOptions): { layout: LayoutOptions; capacity: number } {
+  if (options.maxRowsPerSlide <= 0) {
+    return { layout: options, capacity: Infinity };
+  }
+
+  const blocksPerPage = Math.max(1, options.splitColumns);
+  if (options.fillOrder === 'fixed-rows') {
+    // 行数固定: ブロックの行数を上限で抑え、分割数を1ページのブロック数とする
+    const rowsPerBlock = Math.max(1, Math.min(options.rowsPerBlock, options.maxRowsPerSlide));
+    return {
+      layout: { ...options, rowsPerBlock },
+      capacity: rowsPerBlock * blocksPerPage,
+    };
+  }
+
+  return { layout: options, capacity: options.maxRowsPerSlide * blocksPerPage };
+}
+
+/**
+ * ページ数を計算
+ */
+export function getPageCount(totalRows: number, options: LayoutOptions): number {
+  const { capacity } = getPageLayout(options);
+  return Math.max(1, Math.ceil(totalRows / capacity));
+}
+
+/**
+ * データをスライド単位のページに分割し、各ページを段組み変換
+ * ヘッダーは各ページに複製される。連番は分割前に付与されるため、ページをまたいで連続する
+ */
+export function paginate(data: TableData, options: LayoutOptions): TableData[] {
+  const { layout, capacity } = getPageLayout(options);
+  const pageCount = getPageCount(data.rows.length, options);
+  if (pageCount === 1) {
+    return [transformLayout(data, layout)];
+  }
+
+  const pages: TableData[] = [];
+  let start = 0;
+  while (start < data.rows.length) {
+    let end = Math.min(start + capacity, data.rows.length);
+    // グループ見出し行をページの最下行に残さず、次のページへ送る
+    while (end < data.rows.length && end - 1 > start && getRowKind(data, end - 1) === 'group') {
+      end--;
+    }
+    const pageData = selectRows(data, Array.from({ length: end - start }, (_, i) => start + i));
+    const isLastPage = end === data.rows.length;
+    pages.push(transformLayout(
+      layout.footerPlacement === 'last' && !isLastPage ? withoutFooter(pageData) : pageData,
+      layout
+    ));
+    start = end;
+  }
+
+  return pages;
+}
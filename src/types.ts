@@ -11,6 +11,76 @@ export interface TableData {
   separatorColumns?: number[];
   /** ブロック境界の列インデックス（右側に太い罫線を引く） */
   borderBoundaries?: number[];
+  /** 段組みで並べた各ブロックの先頭の列インデックス（区切りの種類によらず記録） */
+  blockStarts?: number[];
+  /**
+   * 各列の由来（元データの列インデックス）
+   * 段組みや連番付与で列がずれても、元の列に紐づく設定を適用するために使用
+   * 未設定の場合は列インデックスそのもの
+   */
+  columnSources?: number[];
+  /**
+   * 入力データで指定された列の配置（Markdownの配置行など）
+   * インデックスは元データの列インデックス。null は指定なし（自動検出）
+   */
+  sourceAlignments?: (Alignment | null)[];
+  /** ヘッダーセルの付加情報（書式・結合） */
+  headerMeta?: (CellMeta | undefined)[];
+  /** データセルの付加情報（rows と同じ形の二次元配列） */
+  cellMeta?: (CellMeta | undefined)[][];
+  /**
+   * 集計行（フッター）
+   * null は集計行を表示しない位置（段組みで最後のブロック以外など）
+   */
+  footer?: (string | null)[];
+  /** 集計行のセルの付加情報 */
+  footerMeta?: (CellMeta | undefined)[];
+}
+
+/** セルの書式（リッチ貼り付けで取り込んだ元データの書式） */
+export interface CellFormat {
+  bold?: boolean;
+  italic?: boolean;
+  /** 文字色（16進数） */
+  color?: string;
+  /** 背景色（16進数） */
+  backgroundColor?: string;
+}
+
+/** 行の種類（data = 通常のデータ行、group = グループ見出し行、subtotal = 小計行） */
+export type RowKind = 'data' | 'group' | 'subtotal';
+
+/** セルの付加情報 */
+export interface CellMeta {
+  format?: CellFormat;
+  /**
+   * 結合グループID
+   * 同じIDを持つ隣接セルは1つのセルに結合して描画する（値は結合の起点セルのものを使う）
+   */
+  mergeId?: string;
+  /** 所属する行の種類（未設定は data） */
+  rowKind?: RowKind;
+  /** 負数を赤字で表示する（数値の書式で指定） */
+  negative?: boolean;
+  /** 条件付き書式の評価結果 */
+  conditional?: ConditionalStyle;
+  /** ハイライトの背景色 */
+  highlight?: string;
+}
+
+/** 条件付き書式でセルに適用する書式 */
+export interface ConditionalStyle {
+  bold?: boolean;
+  color?: string;
+  backgroundColor?: string;
+  dataBar?: DataBarFill;
+}
+
+/** データバー（セル背景の左から ratio の割合を塗る） */
+export interface DataBarFill {
+  /** 塗る割合（0〜1） */
+  ratio: number;
+  color: string;
 }
 
 /** レイアウト設定 */
@@ -19,49 +89,277 @@ export interface LayoutOptions {
   splitColumns: number;
   /** ブロック区切りタイプ */
   separatorType: SeparatorType;
+  /** 配置順 */
+  fillOrder: FillOrder;
+  /** 1ブロックあたりの行数（fillOrder が 'fixed-rows' のとき使用） */
+  rowsPerBlock: number;
+  /**
+   * 1スライドあたりの最大行数（0 = ページ分割しない）
+   * 各スライドには最大で「この行数 × 分割数」件のデータを配置する
+   */
+  maxRowsPerSlide: number;
+  /** 集計行を表示するブロック */
+  footerPlacement: FooterPlacement;
+  /** スライドの領域に収まる分割数・密度・文字サイズを自動で選ぶ */
+  fitToSlide: boolean;
+  /** 表を収めるスライドの領域 */
+  slideArea: SlideArea;
 }
 
+/** スライドサイズ（custom = 幅・高さを指定） */
+export type SlidePreset = '16:9' | '4:3' | 'custom';
+
+/** スライドの領域の単位 */
+export type SlideUnit = 'px' | 'cm';
+
+/** 表を収めるスライドの領域 */
+export interface SlideArea {
+  preset: SlidePreset;
+  /** custom のときのスライドの幅（unit の単位） */
+  width: number;
+  /** custom のときのスライドの高さ（unit の単位） */
+  height: number;
+  unit: SlideUnit;
+  /** 上下左右の余白（unit の単位） */
+  margin: number;
+}
+
+/** 集計行の表示位置（last = 最後のブロックのみ、every = すべてのブロック） */
+export type FooterPlacement = 'last' | 'every';
+
+/** 集計の種類 */
+export type SummaryFunction = 'sum' | 'average' | 'count' | 'min' | 'max';
+
 /** ハイライト色のプリセット名 */
 export type HighlightPreset = 'yellow' | 'green' | 'pink' | 'blue' | 'orange' | 'custom';
 
+/** ハイライト単語の一致方法 */
+export type HighlightMatchMode = 'exact' | 'contains' | 'regex';
+
+/** ハイライトする範囲（一致したセル・そのセルの行全体・列全体） */
+export type HighlightScope = 'cell' | 'row' | 'column';
+
+/** ハイライトグループ（単語ごとに色・一致方法・範囲を指定） */
+export interface HighlightGroup {
+  /** ハイライト単語リスト */
+  words: string[];
+  /** ハイライト色プリセット */
+  preset: HighlightPreset;
+  /** カスタムハイライト色（16進数） */
+  customColor: string;
+  matchMode: HighlightMatchMode;
+  /** 大文字・小文字を区別する */
+  caseSensitive: boolean;
+  scope: HighlightScope;
+}
+
 /** デザイン設定 */
 export interface StyleOptions {
-  /** テーマ名 */
-  theme: ThemeName;
+  /** テーマ名（組み込みテーマ名またはカスタムテーマの名前） */
+  theme: string;
+  /** ユーザーが作成したカスタムテーマ */
+  customThemes: CustomTheme[];
+  /** 文字サイズ（px、0 = テーマの文字サイズ） */
+  fontSize: number;
   /** ゼブラストライプを有効化 */
   zebra: boolean;
   /** 密度 */
   density: Density;
-  /** ハイライト単語リスト */
-  highlightWords: string[];
-  /** ハイライト色プリセット */
-  highlightPreset: HighlightPreset;
-  /** カスタムハイライト色（16進数） */
-  highlightCustomColor: string;
+  /** ハイライトグループ（後のグループほど優先） */
+  highlightGroups: HighlightGroup[];
+  /** 列ごとの配置の手動指定（キーは元データの列インデックス、未指定は自動） */
+  columnAlignments: Record<string, Alignment>;
+  /** 列の最大幅（px、0 = 制限なし）。超える列はセル内で折り返す */
+  maxColumnWidth: number;
+  /** 列ごとの最大幅（px、キーは元データの列インデックス、未指定は maxColumnWidth） */
+  columnMaxWidths: Record<string, number>;
+  /** 貼り付け元の書式（太字・斜体・文字色・背景色）をテーマの上に重ねる */
+  keepSourceFormatting: boolean;
+  /** 同じ値が続くセルを縦に結合する列（元データの列インデックス） */
+  autoMergeColumns: number[];
+  /** 条件付き書式のルール（後のルールほど優先） */
+  conditionalRules: ConditionalRule[];
+  /** カラースケール */
+  colorScales: ColorScale[];
+  /** データバー */
+  dataBars: DataBar[];
+}
+
+/** 条件付き書式の条件 */
+export type ConditionOperator = 'greater' | 'less' | 'between' | 'top' | 'bottom' | 'contains' | 'regex';
+
+/** 条件付き書式のルール */
+export interface ConditionalRule {
+  /** 元データの列インデックス */
+  column: number;
+  operator: ConditionOperator;
+  /** 比較する値（上位・下位は件数、regex は正規表現） */
+  value: string;
+  /** between の上限 */
+  value2: string;
+  bold: boolean;
+  /** 文字色（空文字は変更しない） */
+  color: string;
+  /** 背景色（空文字は変更しない） */
+  backgroundColor: string;
+}
+
+/** カラースケール（列の最小値〜最大値を2色または3色のグラデーションで塗る） */
+export interface ColorScale {
+  /** 元データの列インデックス */
+  column: number;
+  /** 最小値・（中間値・）最大値の色 */
+  colors: string[];
+}
+
+/** データバー（列の値の大きさをセル内の横棒で表す） */
+export interface DataBar {
+  /** 元データの列インデックス */
+  column: number;
+  color: string;
 }
 
 /** データ加工設定 */
 export interface FormatOptions {
+  /** 行と列を入れ替える */
+  transpose: boolean;
   /** 自動連番を付与 */
   addNumbers: boolean;
   /** 数値を3桁区切りに */
   formatNumbers: boolean;
+  /** グループ化する列（元データの列インデックス、null はグループ化なし） */
+  groupBy: number | null;
+  /** グループごとに小計行を追加 */
+  groupSubtotals: boolean;
+  /** 連番をグループごとに振り直す */
+  restartNumbering: boolean;
+  /** 数値列の集計行（null は集計行なし） */
+  summary: SummaryFunction | null;
+  /** 列ごとの数値の書式（指定のない列は3桁区切りのみ） */
+  numberFormats: ColumnNumberFormat[];
+  /** 日付列の書式 */
+  dateFormat: DateFormat;
+  /** 日付列に曜日を付ける */
+  dateWeekday: boolean;
+}
+
+/** 数値の単位（千・万・億で割って丸め、単位を付ける） */
+export type NumberUnit = 'none' | 'thousand' | 'ten-thousand' | 'hundred-million';
+
+/** 数値に付ける記号（keep = 入力の記号のまま） */
+export type NumberSymbol = 'keep' | 'none' | 'percent' | 'yen' | 'dollar' | 'euro';
+
+/** 負数の表示（keep = 入力の表記のまま、red = マイナス記号と赤字） */
+export type NegativeStyle = 'keep' | 'minus' | 'triangle' | 'parentheses' | 'red';
+
+/** 日付の書式（keep = 入力の表記のまま、era = 和暦） */
+export type DateFormat = 'keep' | 'YYYY/MM/DD' | 'YYYY-MM-DD' | 'YYYY/M/D' | 'M/D' | 'YYYY年M月D日' | 'M月D日' | 'era';
+
+/** 列の種類（値から自動判定） */
+export type ColumnType = 'text' | 'number' | 'date';
+
+/** 数値の書式 */
+export interface NumberFormat {
+  /** 小数桁数（null は入力の桁数のまま。単位を付ける場合は0） */
+  decimals: number | null;
+  unit: NumberUnit;
+  symbol: NumberSymbol;
+  negative: NegativeStyle;
+}
+
+/** 列に適用する数値の書式 */
+export interface ColumnNumberFormat extends NumberFormat {
+  /** 元データの列インデックス */
+  column: number;
+}
+
+/** 列の表示設定（配列の並び順が表示順） */
+export interface ColumnSetting {
+  /** 元データの列インデックス */
+  index: number;
+  /** 元データの見出し（再貼り付け時に同じ列を見つけるために使用） */
+  header: string;
+  /** 表示名（空文字は元の見出しのまま） */
+  label: string;
+  /** 表示する */
+  visible: boolean;
+}
+
+/** 並べ替えの向き */
+export type SortDirection = 'asc' | 'desc';
+
+/** 並べ替えキー */
+export interface SortKey {
+  /** 元データの列インデックス */
+  column: number;
+  direction: SortDirection;
 }
 
+/** 絞り込みの条件（greater / less は数値比較、top は数値の大きい順に上位N件） */
+export type FilterOperator = 'equals' | 'contains' | 'greater' | 'less' | 'top';
+
+/** 絞り込みルール */
+export interface FilterRule {
+  /** 元データの列インデックス */
+  column: number;
+  operator: FilterOperator;
+  /** 比較する値（top の場合は件数） */
+  value: string;
+}
+
+/** PNG画像の倍率 */
+export type ImageScale = 1 | 2 | 3;
+
+/** 画像出力設定 */
+export interface ImageOptions {
+  /** PNGの倍率 */
+  scale: ImageScale;
+  /** 背景を透明にする */
+  transparent: boolean;
+  /** コピー時にPNG画像も含める */
+  copyImage: boolean;
+}
+
+/** コピーした表の貼り付け先 */
+export type PasteTarget = 'powerpoint' | 'google-slides' | 'keynote' | 'excel';
+
+/** 入力データの区切り文字（auto = 自動判別, whitespace = 2つ以上の空白で桁揃え） */
+export type Delimiter = 'auto' | 'tab' | 'comma' | 'semicolon' | 'pipe' | 'whitespace';
+
 /** 全オプションを統合 */
 export interface AllOptions {
   layout: LayoutOptions;
   style: StyleOptions;
   format: FormatOptions;
+  image: ImageOptions;
   hasHeader: boolean;
+  /** 入力データの区切り文字 */
+  delimiter: Delimiter;
+  /** 列の表示・並び順・表示名 */
+  columns: ColumnSetting[];
+  /** 並べ替えキー（先頭ほど優先） */
+  sort: SortKey[];
+  /** 絞り込みルール（すべてを満たす行を残す） */
+  filters: FilterRule[];
+  /** コピーした表の貼り付け先（貼り付け先に合わせてHTMLを書き出す） */
+  pasteTarget: PasteTarget;
 }
 
-/** テーマ名 */
+/** 組み込みテーマ名 */
 export type ThemeName = 'standard-blue' | 'dark-gray' | 'minimal' | 'accent-green';
 
 /** 密度 */
 export type Density = 'extra-comfortable' | 'comfortable' | 'standard' | 'compact' | 'extra-compact';
 
+/**
+ * 配置順
+ * - down: 上から下、次に右へ（Down-then-Across）
+ * - across: 左から右、次に下へ（Across-then-Down）
+ * - balanced: 上から下へ、端数行を各ブロックに均等に配分
+ * - fixed-rows: 1ブロックの行数を固定し、ブロック数は行数から決定
+ */
+export type FillOrder = 'down' | 'across' | 'balanced' | 'fixed-rows';
+
 /** ブロック区切りタイプ */
 export type SeparatorType = 'none' | 'column' | 'border';
 
@@ -73,12 +371,97 @@ export interface ThemeColors {
   zebraOdd: string;
 }
 
+/** テーマ定義（色に加えて罫線・フォントを含む） */
+export interface ThemeDefinition extends ThemeColors {
+  /** 罫線の色 */
+  borderColor: string;
+  /** 罫線の太さ（px） */
+  borderWidth: number;
+  /** ヘッダー下の罫線の色 */
+  headerBorderColor: string;
+  /** ヘッダー下の罫線の太さ（px） */
+  headerBorderWidth: number;
+  fontFamily: string;
+  /** フォントサイズ（px） */
+  fontSize: number;
+  /** ブロック境界の罫線の色 */
+  separatorColor: string;
+}
+
+/** カスタムテーマ */
+export interface CustomTheme extends ThemeDefinition {
+  /** テーマ名（組み込みテーマ名とは重複しない） */
+  name: string;
+}
+
 /** セルの配置 */
 export type Alignment = 'left' | 'right' | 'center';
 
+/** 列の配置設定（auto = 自動検出） */
+export type ColumnAlignment = 'auto' | Alignment;
+
 /** セル情報 */
 export interface CellInfo {
   value: string;
   alignment: Alignment;
   isNumeric: boolean;
 }
+
+/** セルの余白（px） */
+export interface CellPadding {
+  vertical: number;
+  horizontal: number;
+}
+
+/** 描画用セル（テーマ・ゼブラ・ハイライト適用済み） */
+export interface RenderCell {
+  value: string;
+  alignment: Alignment;
+  /** 背景色（区切り列は 'transparent'） */
+  backgroundColor: string;
+  /** 文字色（未指定なら既定色） */
+  color?: string;
+  bold: boolean;
+  italic: boolean;
+  /** 結合の起点セルの行数・列数（結合なしは 1） */
+  rowSpan: number;
+  colSpan: number;
+  /** データバー（条件付き書式） */
+  dataBar?: DataBarFill;
+  /** 他のセルに結合されて描画しないセル */
+  isCovered: boolean;
+  /** 結合されたセルの、起点セルからの位置（isCovered のときのみ） */
+  spanOffset?: { row: number; col: number };
+  /** 区切り列（透明化対象） */
+  isSeparator: boolean;
+  /** ブロック境界（右側に太い罫線） */
+  isBlockBoundary: boolean;
+}
+
+/** 描画用テーブルモデル（HTML・PPTX・画像出力で共通） */
+export interface TableModel {
+  /** 列幅（px） */
+  columnWidths: number[];
+  /** ヘッダー行（ヘッダーなしの場合は null） */
+  header: RenderCell[] | null;
+  rows: RenderCell[][];
+  /** 集計行（集計なしの場合は null） */
+  footer: RenderCell[] | null;
+  padding: CellPadding;
+  fontFamily: string;
+  /** フォントサイズ（px） */
+  fontSize: number;
+  /** 通常の罫線 */
+  border: TableBorder;
+  /** ヘッダー下の罫線 */
+  headerBorder: TableBorder;
+  /** ブロック境界の罫線 */
+  boundaryBorder: TableBorder;
+}
+
+/** 罫線の定義 */
+export interface TableBorder {
+  /** 太さ（px） */
+  width: number;
+  color: string;
+}
@@ -0,0 +1,149 @@
+/**
+ * セル内の折り返し - 列の最大幅に収まるようにセル内改行を挿入する
+ * 和文は1文字ごと、欧文は単語ごとに折り返し、句読点・閉じ括弧を行頭に、開き括弧を行末に置かない（禁則処理）
+ */
+
+import { measureTextWidth } from './measure';
+
+/** 行頭に置かない文字（句読点・閉じ括弧・小書きの仮名・長音記号など。前の行にぶら下げる） */
+const LINE_START_PROHIBITED = /^[、。，．,.・：；:;？！?!‐゠–〜～ー）)］\]｝}〕〉》」』】〙〗〟’”｠»ヽヾゝゞ々〻ぁぃぅぇぉっゃゅょゎゕゖァィゥェォッャュョヮヵヶㇰ-ㇿ%％‰℃]/;
+
+/** 行末に置かない文字（開き括弧・通貨記号。次の行に送る） */
+const LINE_END_PROHIBITED = /[（(［\[｛{〔〈《「『【〘〖〝‘“｟«¥$￥＄]$/;
+
+/** 1文字ごとに折り返せる文字（和文・全角記号・ハングル・絵文字） */
+const CJK_PATTERN = /[\u1100-\u115F\u2E80-\u303E\u3041-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFFEF\u{20000}-\u{3FFFD}]|\p{Extended_Pictographic}/u;
+
+/** 直前の文字と分けられない文字（結合文字・異体字セレクタ・ZWJ・肌の色の修飾子） */
+const JOINING_PATTERN = /[\p{M}\u200D\uFE00-\uFE0F\u{E0100}-\u{E01EF}\u{1F3FB}-\u{1F3FF}]/u;
+
+/** 地域指示子（2文字で1つの国旗） */
+const REGIONAL_INDICATOR_PATTERN = /^[\u{1F1E6}-\u{1F1FF}]$/u;
+
+/** 折り返しの単位（欧文の単語・和文の1文字・空白） */
+interface WrapUnit {
+  text: string;
+  /** 空白（行頭には置かず、行末では幅に含めない） */
+  isSpace: boolean;
+}
+
+/**
+ * 文字列を最大幅（px）に収まるように折り返す（元のセル内改行は保つ）
+ * ぶら下げた句読点や、1文字で最大幅を超える文字は最大幅からはみ出すことがある
+ */
+export function wrapText(text: string, maxWidth: number, fontFamily: string, fontSize: number, bold = false): string {
+  const measure = (value: string) => measureTextWidth(value, fontFamily, fontSize, bold);
+  return text
+    .split('\n')
+    .map(line => measure(line) <= maxWidth ? line : wrapLine(line, maxWidth, measure).join('\n'))
+    .join('\n');
+}
+
+/**
+ * 1行を折り返す（前から順に、収まる限り同じ行に詰める）
+ */
+function wrapLine(text: string, maxWidth: number, measure: (value: string) => number): string[] {
+  const lines: string[] = [];
+  let current: WrapUnit[] = [];
+  // 行の幅（末尾の空白を除く）と末尾の空白の幅
+  let width = 0;
+  let spaceWidth = 0;
+
+  for (const unit of splitUnits(text, maxWidth, measure)) {
+    const unitWidth = measure(unit.text);
+    if (unit.isSpace) {
+      if (current.length > 0) {
+        current.push(unit);
+        spaceWidth += unitWidth;
+      }
+      continue;
+    }
+
+    if (current.length === 0 || width + spaceWidth + unitWidth <= maxWidth || LINE_START_PROHIBITED.test(unit.text)) {
+      current.push(unit);
+      width += spaceWidth + unitWidth;
+      spaceWidth = 0;
+      continue;
+    }
+
+    // 行末の開き括弧は次の行に送る
+    const carried: WrapUnit[] = [];
+    while (current.length > 1) {
+      const last = current[current.length - 1];
+      if (last.isSpace || !LINE_END_PROHIBITED.test(last.text)) break;
+      carried.unshift(current.pop()!);
+    }
+
+    lines.push(joinUnits(current));
+    current = [...carried, unit];
+    width = measure(joinUnits(current));
+    spaceWidth = 0;
+  }
+
+  if (current.length > 0) {
+    lines.push(joinUnits(current));
+  }
+  return lines;
+}
+
+/**
+ * 折り返しの単位に分割
+ * 欧文の単語はまとめて扱い、最大幅より長い単語だけ1文字ごとに分ける
+ */
+function splitUnits(text: string, maxWidth: number, measure: (value: string) => number): WrapUnit[] {
+  const units: WrapUnit[] = [];
+  let word: string[] = [];
+
+  const flushWord = () => {
+    if (word.length === 0) return;
+    const wordText = word.join('');
+    if (measure(wordText) > maxWidth) {
+      units.push(...word.map(char => ({ text: char, isSpace: false })));
+    } else {
+      units.push({ text: wordText, isSpace: false });
+    }
+    word = [];
+  };
+
+  for (const cluster of splitClusters(text)) {
+    if (/^\s/.test(cluster)) {
+      flushWord();
+      units.push({ text: cluster, isSpace: true });
+    } else if (CJK_PATTERN.test(cluster)) {
+      flushWord();
+      units.push({ text: cluster, isSpace: false });
+    } else {
+      word.push(cluster);
+    }
+  }
+  flushWord();
+
+  return units;
+}
+
+/**
+ * 見た目の1文字ごとに分割（結合文字・絵文字のZWJシーケンス・国旗は分けない）
+ */
+function splitClusters(text: string): string[] {
+  const clusters: string[] = [];
+  let joinNext = false;
+
+  for (const char of text) {
+    const last = clusters[clusters.length - 1];
+    const isFlagPair = last !== undefined
+      && REGIONAL_INDICATOR_PATTERN.test(last)
+      && REGIONAL_INDICATOR_PATTERN.test(char);
+    if (last !== undefined && (joinNext || JOINING_PATTERN.test(char) || isFlagPair)) {
+      clusters[clusters.length - 1] += char;
+    } else {
+      clusters.push(char);
+    }
+    joinNext = char === '\u200D';
+  }
+
+  return clusters;
+}
+
+function joinUnits(units: WrapUnit[]): string {
+  return units.map(unit => unit.text).join('').trimEnd();
+}
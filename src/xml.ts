@@ -0,0 +1,16 @@
+/**
+ * XML出力の共通処理（PPTX・SVG）
+ */
+
+/**
+ * XMLの特殊文字をエスケープし、XMLで使用できない制御文字を除去
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,193 @@
+/**
+ * ZIPアーカイブの生成（無圧縮 / STORE方式）と読み込み（STORE・Deflate方式）
+ * PPTXなどのOOXMLパッケージをブラウザ内だけで組み立て・読み取るために使用
+ */
+
+/** アーカイブに含めるファイル */
+export interface ZipEntry {
+  /** アーカイブ内のパス（例: 'ppt/slides/slide1.xml'） */
+  path: string;
+  /** 内容（文字列はUTF-8でエンコード） */
+  data: string | Uint8Array;
+}
+
+/** CRC-32 の参照テーブル */
+const CRC_TABLE: Uint32Array = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/** DOS形式の日付（1980-01-01 固定: 生成ごとに内容が変わらないようにする） */
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+const DOS_TIME = 0;
+
+/**
+ * CRC-32 を計算
+ */
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * ファイル群をZIPアーカイブに格納
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+
+    // ローカルファイルヘッダー
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034B50, true);
+    localView.setUint16(4, 20, true); // 展開に必要なバージョン
+    localView.setUint16(6, 0x0800, true); // ファイル名はUTF-8
+    localView.setUint16(8, 0, true); // 無圧縮
+    localView.setUint16(10, DOS_TIME, true);
+    localView.setUint16(12, DOS_DATE, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    // セントラルディレクトリ
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014B50, true);
+    centralView.setUint16(4, 20, true); // 作成バージョン
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, DOS_TIME, true);
+    centralView.setUint16(14, DOS_DATE, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, data);
+    centralParts.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+
+  // セントラルディレクトリ終端レコード
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054B50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, end];
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+/** セントラルディレクトリに記録されたファイル */
+interface ZipDirectoryEntry {
+  path: string;
+  /** 圧縮方式（0: 無圧縮, 8: Deflate） */
+  method: number;
+  compressedSize: number;
+  /** ローカルファイルヘッダーの位置 */
+  offset: number;
+}
+
+/**
+ * アーカイブ内のファイルパス一覧（ZIPでなければ空）
+ */
+export function listZipEntries(bytes: Uint8Array): string[] {
+  return readCentralDirectory(bytes).map(entry => entry.path);
+}
+
+/**
+ * アーカイブから指定のファイルを取り出す（見つからない・未対応の圧縮方式・展開できないデータは null）
+ */
+export async function readZipEntry(bytes: Uint8Array, path: string): Promise<Uint8Array | null> {
+  const entry = readCentralDirectory(bytes).find(item => item.path === path);
+  if (!entry) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (entry.offset + 30 > bytes.length || view.getUint32(entry.offset, true) !== 0x04034B50) {
+    return null;
+  }
+  const dataStart = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return data;
+  }
+  if (entry.method === 8) {
+    try {
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    } catch (error) {
+      // 途中で切れている・壊れている圧縮データ
+      console.warn(`Failed to inflate ${path}:`, error);
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * セントラルディレクトリを読み取る（終端レコードは末尾のコメントを考慮して後ろから探す）
+ */
+function readCentralDirectory(bytes: Uint8Array): ZipDirectoryEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xFFFF); i--) {
+    if (view.getUint32(i, true) === 0x06054B50) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return [];
+
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  const entries: ZipDirectoryEntry[] = [];
+  let position = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > bytes.length || view.getUint32(position, true) !== 0x02014B50) break;
+    const nameLength = view.getUint16(position + 28, true);
+    entries.push({
+      path: decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength)),
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      offset: view.getUint32(position + 42, true),
+    });
+    position += 46 + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+  }
+  return entries;
+}